@@ -4,7 +4,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 export default defineConfig({
-    schema: './src/modules/*/*.schema.ts',
+    schema: ['./src/modules/*/*.schema.ts', './src/infrastructure/*/*.schema.ts'],
     out: './drizzle',
     dialect: 'postgresql',
     dbCredentials: {
@@ -1,7 +1,32 @@
 import express, { Application } from 'express';
+import cookieParser from 'cookie-parser';
+import swaggerUi from 'swagger-ui-express';
 import { requestLogger } from './middleware/logger.middleware';
+import { requestContext } from './middleware/request-context.middleware';
+import { httpMetrics, serveMetrics } from './middleware/metrics.middleware';
+import { trackInFlight } from './middleware/lifecycle.middleware';
+import { negotiateLocale } from './middleware/locale.middleware';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { config } from './config/env';
+import { keyRing } from './infrastructure/keys';
+import { ApiMount, OpenApiRegistry } from './infrastructure/openapi';
 import userRoutes from './modules/user/user.routes';
+import authRoutes from './modules/auth/auth.routes';
+import roleRoutes from './modules/role/role.routes';
+import auditRoutes from './modules/audit/audit.routes';
+import healthRoutes from './modules/health/health.routes';
+
+/**
+ * Module routers and where they are mounted
+ * Also registered with the OpenAPI document, under their tag
+ */
+const apiMounts: ApiMount[] = [
+    { path: '/health', router: healthRoutes, tag: 'Health', description: 'Liveness and readiness probes' },
+    { path: '/api/auth', router: authRoutes, tag: 'Auth', description: 'Sessions, sign-in methods, MFA and passwords' },
+    { path: '/api/users', router: userRoutes, tag: 'Users', description: 'User management' },
+    { path: '/api/roles', router: roleRoutes, tag: 'Roles', description: 'Roles and permission assignment' },
+    { path: '/api/audit-logs', router: auditRoutes, tag: 'Audit Logs', description: 'Auth and user-management events' },
+];
 
 /**
  * Express application setup
@@ -9,15 +34,48 @@ import userRoutes from './modules/user/user.routes';
  * Architecture Note:
  * - This file configures the Express app but doesn't start the server
  * - Separation allows for easier testing
- * - Middleware order is important: logging → parsing → routes → error handling
+ * - Middleware order is important: request context → logging → parsing → routes → error handling
  */
 export const createApp = (): Application => {
     const app = express();
 
+    /**
+     * Trust proxy
+     * Makes req.ip the client address behind a load balancer (used for rate limiting)
+     */
+    app.set('trust proxy', config.TRUST_PROXY);
+
     // ============================================
     // Global Middleware
     // ============================================
 
+    /**
+     * Request context
+     * Assigns the X-Request-Id that ties together the logs of a request;
+     * must come first so everything after runs inside the context
+     */
+    app.use(requestContext);
+
+    /**
+     * In-flight tracking
+     * Lets graceful shutdown wait for running requests
+     */
+    app.use(trackInFlight);
+
+    /**
+     * Locale negotiation
+     * Picks the language of messages and errors from Accept-Language
+     */
+    app.use(negotiateLocale);
+
+    /**
+     * HTTP metrics
+     * Counts requests and their latency per route template for /metrics
+     */
+    if (config.METRICS_ENABLED) {
+        app.use(httpMetrics(apiMounts.map((mount) => mount.path)));
+    }
+
     /**
      * Request logging
      * Logs all incoming HTTP requests
@@ -36,20 +94,39 @@ export const createApp = (): Application => {
      */
     app.use(express.urlencoded({ extended: true }));
 
+    /**
+     * Cookie parsing
+     * Required for the cookie refresh-token transport
+     */
+    app.use(cookieParser());
+
     // ============================================
-    // Health Check
+    // Metrics
     // ============================================
 
     /**
-     * Health check endpoint
-     * Used for monitoring and load balancer health checks
+     * Prometheus scrape endpoint
+     * HTTP, database pool, auth and process metrics
      */
-    app.get('/health', (_req, res) => {
-        res.status(200).json({
-            success: true,
-            message: 'Server is healthy',
-            timestamp: new Date().toISOString(),
-        });
+    if (config.METRICS_ENABLED) {
+        app.get('/metrics', serveMetrics);
+    }
+
+    // ============================================
+    // Public Keys
+    // ============================================
+
+    /**
+     * JSON Web Key Set
+     * Public keys other services use to verify our access tokens (matched by kid)
+     */
+    app.get('/.well-known/jwks.json', async (_req, res, next) => {
+        try {
+            res.setHeader('Cache-Control', 'public, max-age=300');
+            res.status(200).json(await keyRing.jwks());
+        } catch (error) {
+            next(error);
+        }
     });
 
     // ============================================
@@ -58,9 +135,41 @@ export const createApp = (): Application => {
 
     /**
      * Mount module routes
-     * All routes are prefixed with /api
+     * API routes are prefixed with /api, health probes live at /health
      */
-    app.use('/api/users', userRoutes);
+    for (const { path, router } of apiMounts) {
+        app.use(path, router);
+    }
+
+    // ============================================
+    // API Documentation
+    // ============================================
+
+    if (config.API_DOCS_ENABLED) {
+        const openApi = new OpenApiRegistry({
+            title: 'Backend API',
+            version: '1.0.0',
+            description: 'Generated from the validation schemas and route docs of each module',
+        });
+        apiMounts.forEach((mount) => openApi.register(mount));
+
+        /**
+         * OpenAPI 3.1 document
+         * Derived from the mounted routers, so it cannot drift from the routes
+         */
+        app.get('/openapi.json', (_req, res) => {
+            res.status(200).json(openApi.toDocument());
+        });
+
+        /**
+         * Interactive docs (Swagger UI) for /openapi.json
+         */
+        app.use(
+            '/docs',
+            swaggerUi.serve,
+            swaggerUi.setup(undefined, { swaggerOptions: { url: '/openapi.json', persistAuthorization: true } })
+        );
+    }
 
     // ============================================
     // Error Handling
@@ -1,9 +1,33 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import { SUPPORTED_LOCALES } from '../infrastructure/i18n/i18n.types';
 
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * One entry of OIDC_PROVIDERS (see OidcProviderConfig)
+ */
+const oidcProviderSchema = z.object({
+    name: z.string().regex(/^[a-z0-9-]+$/, 'Provider name must be lowercase letters, digits or dashes'),
+    issuer: z.string().url(),
+    clientId: z.string().min(1),
+    clientSecret: z.string().optional(),
+    redirectUri: z.string().url().optional(),
+    scopes: z.array(z.string()).optional(),
+    issuerAliases: z.array(z.string()).optional(),
+    claims: z
+        .object({
+            subject: z.string(),
+            email: z.string(),
+            emailVerified: z.union([z.string(), z.boolean()]),
+            name: z.string(),
+            picture: z.string(),
+        })
+        .partial()
+        .optional(),
+});
+
 /**
  * Environment configuration schema using Zod
  * This ensures all required environment variables are present and valid
@@ -14,11 +38,133 @@ const envSchema = z.object({
     PORT: z.string().transform(Number).pipe(z.number().min(1).max(65535)).default('3000'),
     DATABASE_URL: z.string().url('DATABASE_URL must be a valid PostgreSQL connection string'),
     LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+    /** Log every SQL statement (without parameter values) tagged with the request id */
+    DB_LOG_QUERIES: z.enum(['true', 'false']).transform((value) => value === 'true').default('false'),
+    /**
+     * Express "trust proxy" setting, needed for req.ip behind a load balancer
+     * true/false, a hop count, or a comma-separated list of trusted addresses
+     */
+    TRUST_PROXY: z
+        .string()
+        .default('false')
+        .transform((value): boolean | number | string => {
+            if (value === 'true') return true;
+            if (value === 'false') return false;
+            return /^\d+$/.test(value) ? Number(value) : value;
+        }),
+    /** Serve Prometheus metrics at /metrics */
+    METRICS_ENABLED: z.enum(['true', 'false']).transform((value) => value === 'true').default('true'),
+    /** Bearer token scrapers must send to /metrics; unset leaves it open (restrict it at the network level) */
+    METRICS_TOKEN: z.string().min(16).optional(),
+    /**
+     * Language of responses when neither the user's preferred locale nor
+     * Accept-Language selects a supported one
+     */
+    DEFAULT_LOCALE: z.enum(SUPPORTED_LOCALES).default('en'),
+    /** Serve the OpenAPI document at /openapi.json and the docs UI at /docs */
+    API_DOCS_ENABLED: z.enum(['true', 'false']).transform((value) => value === 'true').default('true'),
+    /** How long /health/ready waits for the database before reporting it down */
+    READINESS_DB_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().int().positive()).default('1000'),
+    /**
+     * Seconds to keep serving after SIGTERM with readiness failing, so load
+     * balancers stop routing here before the listener closes
+     */
+    SHUTDOWN_DELAY_SECONDS: z.string().transform(Number).pipe(z.number().nonnegative()).default('0'),
+    /** memory (per instance) or postgres (shared across instances) */
+    RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+    /** Signs internal short-lived tokens (MFA challenges, OAuth state); access tokens use JWT_KEYS_DIR */
     ACCESS_SECRET: z.string(),
     REFRESH_SECRET: z.string(),
+    /**
+     * Directory of `<kid>.pem` keys (RSA or Ed25519) signing access tokens;
+     * required in production, an ephemeral key is used otherwise
+     */
+    JWT_KEYS_DIR: z.string().optional(),
+    /** Key id that signs new tokens (default: the alphabetically last private key) */
+    JWT_ACTIVE_KID: z.string().optional(),
+    /** How long token versions and the access-token denylist are cached per instance */
+    TOKEN_REVOCATION_CACHE_SECONDS: z.string().transform(Number).pipe(z.number().nonnegative()).default('30'),
     GOOGLE_CLIENT_ID: z.string(),
     GOOGLE_CLIENT_SECRET: z.string(),
     GOOGLE_REDIRECT_URI: z.string(),
+    /** JSON array of additional OpenID Connect providers, e.g. [{"name":"keycloak","issuer":"...","clientId":"..."}] */
+    OIDC_PROVIDERS: z
+        .string()
+        .default('[]')
+        .transform((value, ctx) => {
+            try {
+                return JSON.parse(value) as unknown;
+            } catch {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OIDC_PROVIDERS must be valid JSON' });
+                return z.NEVER;
+            }
+        })
+        .pipe(z.array(oidcProviderSchema)),
+    /**
+     * Frontend URLs the OAuth callback may redirect to (comma-separated);
+     * a redirectTo must share the origin and path prefix of one of them.
+     * The first is the default. Defaults to APP_URL.
+     */
+    OAUTH_REDIRECT_URLS: z
+        .string()
+        .default('')
+        .transform((value) => value.split(',').map((url) => url.trim()).filter(Boolean))
+        .pipe(z.array(z.string().url())),
+    /**
+     * What happens when an external sign-in matches the email of an existing account
+     * - verified: link automatically when the provider has verified the email
+     * - never: refuse; the user must sign in and link the provider explicitly
+     */
+    ACCOUNT_LINKING_POLICY: z.enum(['verified', 'never']).default('verified'),
+    /**
+     * How refresh tokens travel between client and server
+     * - body: returned in and read from the JSON body (mobile clients)
+     * - cookie: set in and read from an httpOnly cookie (browser clients)
+     * - hybrid: per request, cookie when the client sends `X-Refresh-Token-Transport: cookie`
+     */
+    REFRESH_TOKEN_TRANSPORT: z.enum(['body', 'cookie', 'hybrid']).default('body'),
+    /** Brute-force protection for password and MFA login */
+    LOGIN_MAX_ATTEMPTS_PER_ACCOUNT: z.string().transform(Number).pipe(z.number().int().positive()).default('5'),
+    LOGIN_MAX_ATTEMPTS_PER_IP: z.string().transform(Number).pipe(z.number().int().positive()).default('50'),
+    LOGIN_DELAY_AFTER: z.string().transform(Number).pipe(z.number().int().nonnegative()).default('3'),
+    LOGIN_LOCKOUT_MINUTES: z.string().transform(Number).pipe(z.number().positive()).default('15'),
+    /** Soft-deleted users can be restored for this many days before they are purged */
+    USER_RETENTION_DAYS: z.string().transform(Number).pipe(z.number().nonnegative()).default('30'),
+    /** delete removes purged users entirely, anonymize keeps a scrubbed row */
+    USER_PURGE_MODE: z.enum(['delete', 'anonymize']).default('anonymize'),
+    /** How often the server runs the purge; 0 disables the scheduled job */
+    USER_PURGE_INTERVAL_MINUTES: z.string().transform(Number).pipe(z.number().nonnegative()).default('60'),
+    /** Issuer label shown in authenticator apps */
+    MFA_ISSUER: z.string().default('Backend API'),
+    /** Public URL of the frontend, used to build links in emails */
+    APP_URL: z.string().url().default('http://localhost:3000'),
+    /**
+     * What unverified accounts may do
+     * - allow: everything
+     * - restrict: log in, but routes guarded by requireVerifiedEmail are refused
+     * - block: no login until the email is verified
+     */
+    UNVERIFIED_ACCOUNT_POLICY: z.enum(['allow', 'restrict', 'block']).default('restrict'),
+    EMAIL_VERIFICATION_TTL_HOURS: z.string().transform(Number).pipe(z.number().positive()).default('24'),
+    PASSWORD_RESET_TTL_MINUTES: z.string().transform(Number).pipe(z.number().positive()).default('30'),
+    /** smtp for real delivery, file/memory for local development and tests */
+    MAIL_TRANSPORT: z.enum(['smtp', 'file', 'memory']).default('file'),
+    MAIL_FROM: z.string().default('no-reply@localhost'),
+    MAIL_FILE_DIR: z.string().default('tmp/mail'),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.string().transform(Number).pipe(z.number().min(1).max(65535)).default('587'),
+    SMTP_SECURE: z.enum(['true', 'false']).transform((value) => value === 'true').default('false'),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+}).refine((env) => env.MAIL_TRANSPORT !== 'smtp' || !!env.SMTP_HOST, {
+    message: 'SMTP_HOST is required when MAIL_TRANSPORT is smtp',
+    path: ['SMTP_HOST'],
+}).refine((env) => env.NODE_ENV !== 'production' || !!env.JWT_KEYS_DIR, {
+    message: 'JWT_KEYS_DIR is required in production',
+    path: ['JWT_KEYS_DIR'],
+}).refine((env) => env.NODE_ENV !== 'production' || env.MAIL_TRANSPORT === 'smtp', {
+    message: 'MAIL_TRANSPORT must be smtp in production',
+    path: ['MAIL_TRANSPORT'],
 });
 
 /**
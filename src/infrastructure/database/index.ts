@@ -1,6 +1,11 @@
 import { Pool } from 'pg';
 import { drizzle } from 'drizzle-orm/node-postgres';
+import { Logger } from 'drizzle-orm/logger';
+import { PgTransaction } from 'drizzle-orm/pg-core';
+import { Gauge } from 'prom-client';
 import { config } from '../../config/env';
+import { logger } from '../../middleware/logger.middleware';
+import { metricsRegistry } from '../metrics';
 
 /**
  * PostgreSQL connection pool
@@ -13,12 +18,99 @@ const pool = new Pool({
     connectionTimeoutMillis: 2000, // Return an error after 2 seconds if connection cannot be established
 });
 
+/**
+ * Pool gauges, read from the pool whenever /metrics is scraped
+ */
+new Gauge({
+    name: 'db_pool_clients_total',
+    help: 'Clients in the PostgreSQL pool (idle and in use)',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(pool.totalCount);
+    },
+});
+
+new Gauge({
+    name: 'db_pool_clients_idle',
+    help: 'Idle clients in the PostgreSQL pool',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(pool.idleCount);
+    },
+});
+
+new Gauge({
+    name: 'db_pool_clients_waiting',
+    help: 'Queries waiting for a free client',
+    registers: [metricsRegistry],
+    collect() {
+        this.set(pool.waitingCount);
+    },
+});
+
+/**
+ * Query logger enabled by DB_LOG_QUERIES
+ * Parameter values are left out since they carry password and token hashes;
+ * the request id is added by the logger from the request context
+ */
+class QueryLogger implements Logger {
+    logQuery(query: string, params: unknown[]): void {
+        logger.info('DB Query', { query, params: params.length });
+    }
+}
+
 /**
  * Drizzle ORM instance
  * This is the main database client used throughout the application
  * Import this in services to interact with the database
  */
-export const db = drizzle(pool);
+export const db = drizzle(pool, { logger: config.DB_LOG_QUERIES ? new QueryLogger() : false });
+
+export type Database = typeof db;
+
+/**
+ * The handle passed to db.transaction callbacks
+ */
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/**
+ * Either the pool or an open transaction
+ * Service methods that write take one as their last parameter (defaulting
+ * to db) so callers can make them part of their own transaction
+ */
+export type DbExecutor = Database | Transaction;
+
+/**
+ * Whether the executor is an open transaction, i.e. its writes are not
+ * committed yet
+ */
+export const isTransaction = (executor: DbExecutor): executor is Transaction =>
+    executor instanceof PgTransaction;
+
+/**
+ * Run fn as one unit of work
+ * - Commits when fn resolves, rolls back and rethrows when it throws
+ * - Given an open transaction, fn joins it instead of starting a new one,
+ *   so services composed under one withTransaction commit or fail together
+ * - Keep what cannot be rolled back (mail, events, audit records) out of fn
+ *   and do it after the transaction resolves
+ *
+ * Usage:
+ * const user = await withTransaction(async (tx) => {
+ *     const [user] = await tx.insert(users).values(data).returning();
+ *     await roleService.assignDefaultRole(user.id, tx);
+ *     return user;
+ * });
+ */
+export const withTransaction = <T>(
+    fn: (tx: Transaction) => Promise<T>,
+    executor: DbExecutor = db
+): Promise<T> => {
+    if (isTransaction(executor)) {
+        return fn(executor);
+    }
+    return db.transaction(fn);
+};
 
 /**
  * Test database connection
@@ -36,6 +128,28 @@ export const testConnection = async (): Promise<void> => {
     }
 };
 
+/**
+ * Check the database through the pool, for readiness probes
+ * Fails when no client is free or the query does not answer within timeoutMs
+ * @returns Round-trip time in milliseconds
+ */
+export const checkConnection = async (timeoutMs: number): Promise<number> => {
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        await Promise.race([
+            pool.query('SELECT 1'),
+            new Promise((_resolve, reject) => {
+                timer = setTimeout(() => reject(new Error(`Database check timed out after ${timeoutMs}ms`)), timeoutMs);
+            }),
+        ]);
+    } finally {
+        clearTimeout(timer);
+    }
+
+    return Date.now() - start;
+};
 
 export const closeConnection = async (): Promise<void> => {
     try {
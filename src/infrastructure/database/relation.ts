@@ -1,9 +1,29 @@
-import { refreshTokens } from "@/modules/auth/user_tokens.schema";
+import {
+  emailVerificationTokens,
+  passwordResetTokens,
+  refreshTokens,
+} from "@/modules/auth/user_tokens.schema";
+import { mfaRecoveryCodes, userMfa } from "@/modules/auth/mfa.schema";
+import { userIdentities } from "@/modules/auth/identity.schema";
+import {
+  permissions,
+  rolePermissions,
+  roles,
+  userRoles,
+} from "@/modules/role/role.schema";
 import { users } from "@/modules/user/user.schema";
+import { auditLogs } from "@/modules/audit/audit.schema";
 import { relations } from "drizzle-orm";
 
-export const userRelations = relations(users, ({ many }) => ({
+export const userRelations = relations(users, ({ many, one }) => ({
   refreshTokens: many(refreshTokens),
+  emailVerificationTokens: many(emailVerificationTokens),
+  passwordResetTokens: many(passwordResetTokens),
+  mfa: one(userMfa),
+  mfaRecoveryCodes: many(mfaRecoveryCodes),
+  userRoles: many(userRoles),
+  identities: many(userIdentities),
+  auditLogs: many(auditLogs),
 }));
 
 export const refreshTokenRelations = relations(refreshTokens, ({ one }) => ({
@@ -12,3 +32,85 @@ export const refreshTokenRelations = relations(refreshTokens, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+export const emailVerificationTokenRelations = relations(
+  emailVerificationTokens,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [emailVerificationTokens.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const passwordResetTokenRelations = relations(
+  passwordResetTokens,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [passwordResetTokens.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const userMfaRelations = relations(userMfa, ({ one }) => ({
+  user: one(users, {
+    fields: [userMfa.userId],
+    references: [users.id],
+  }),
+}));
+
+export const mfaRecoveryCodeRelations = relations(
+  mfaRecoveryCodes,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [mfaRecoveryCodes.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const roleRelations = relations(roles, ({ many }) => ({
+  userRoles: many(userRoles),
+  rolePermissions: many(rolePermissions),
+}));
+
+export const permissionRelations = relations(permissions, ({ many }) => ({
+  rolePermissions: many(rolePermissions),
+}));
+
+export const rolePermissionRelations = relations(rolePermissions, ({ one }) => ({
+  role: one(roles, {
+    fields: [rolePermissions.roleId],
+    references: [roles.id],
+  }),
+  permission: one(permissions, {
+    fields: [rolePermissions.permissionId],
+    references: [permissions.id],
+  }),
+}));
+
+export const userRoleRelations = relations(userRoles, ({ one }) => ({
+  user: one(users, {
+    fields: [userRoles.userId],
+    references: [users.id],
+  }),
+  role: one(roles, {
+    fields: [userRoles.roleId],
+    references: [roles.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLogs, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLogs.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const userIdentityRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,44 @@
+import { eq } from 'drizzle-orm';
+import { db, closeConnection } from './index';
+import { users } from '../../modules/user/user.schema';
+import { roleService } from '../../modules/role/role.service';
+import { ADMIN_ROLE } from '../../modules/role/role.constants';
+import { logger } from '../../middleware/logger.middleware';
+
+/**
+ * Database seed script
+ * Run with `npm run db:seed` after migrations
+ *
+ * - Creates the permission catalog and default admin/user roles
+ * - Grants admin to the existing user named by SEED_ADMIN_EMAIL, if set
+ */
+const seed = async () => {
+    try {
+        await roleService.seedDefaults();
+        logger.info('Default roles and permissions seeded');
+
+        const adminEmail = process.env.SEED_ADMIN_EMAIL;
+        if (adminEmail) {
+            const [admin] = await db
+                .select({ id: users.id })
+                .from(users)
+                .where(eq(users.email, adminEmail))
+                .limit(1);
+
+            if (!admin) {
+                throw new Error(`SEED_ADMIN_EMAIL user ${adminEmail} not found`);
+            }
+
+            await roleService.assignRole(admin.id, ADMIN_ROLE);
+            logger.info(`Granted ${ADMIN_ROLE} role to ${adminEmail}`);
+        }
+
+        await closeConnection();
+        process.exit(0);
+    } catch (error) {
+        logger.error('Seeding failed:', error);
+        process.exit(1);
+    }
+};
+
+seed();
@@ -0,0 +1,118 @@
+import { sql } from 'drizzle-orm';
+import { db, closeConnection } from './index';
+import { logger } from '../../middleware/logger.middleware';
+
+/**
+ * Holds the pre-upgrade accounts between the two runs of this script
+ */
+const SNAPSHOT_TABLE = 'upgrade_legacy_accounts';
+
+const tableExists = async (table: string) => {
+    const result = await db.execute<{ found: boolean }>(
+        sql`select to_regclass(${`public.${table}`}::text) is not null as found`
+    );
+    return !!result.rows[0]?.found;
+};
+
+const columnExists = async (table: string, column: string) => {
+    const result = await db.execute<{ found: boolean }>(sql`
+        select exists (
+            select 1 from information_schema.columns
+            where table_schema = 'public' and table_name = ${table} and column_name = ${column}
+        ) as found
+    `);
+    return !!result.rows[0]?.found;
+};
+
+/**
+ * Before db:migrate: remember which accounts exist and their Google links
+ * - google_id is dropped by the migration, so it is copied here first
+ * - Accounts that predate email verification are marked to be grandfathered
+ *   as verified, since they never had a chance to verify
+ */
+const snapshot = async () => {
+    const hasGoogleId = await columnExists('users', 'google_id');
+    const hasEmailVerifiedAt = await columnExists('users', 'email_verified_at');
+
+    if (!hasGoogleId && hasEmailVerifiedAt) {
+        logger.info('Schema is already upgraded, nothing to do');
+        return;
+    }
+
+    await db.execute(sql`
+        create table ${sql.identifier(SNAPSHOT_TABLE)} as
+        select
+            id as user_id,
+            email,
+            ${hasGoogleId ? sql.identifier('google_id') : sql`null::varchar`} as google_id,
+            ${sql.raw(hasEmailVerifiedAt ? 'false' : 'true')} as grandfathered
+        from users
+    `);
+
+    logger.info('Existing accounts saved; run `npm run db:migrate`, then run this script again');
+};
+
+/**
+ * After db:migrate: move Google links to user_identities, mark the
+ * grandfathered accounts verified and drop the snapshot
+ */
+const apply = async () => {
+    const migrated =
+        (await tableExists('user_identities')) &&
+        (await columnExists('users', 'email_verified_at'));
+
+    if (!migrated) {
+        logger.info('Accounts are already saved; run `npm run db:migrate`, then run this script again');
+        return;
+    }
+
+    await db.transaction(async (tx) => {
+        const linked = await tx.execute(sql`
+            insert into user_identities (user_id, provider, subject, email)
+            select s.user_id, 'google', s.google_id, s.email
+            from ${sql.identifier(SNAPSHOT_TABLE)} s
+            join users u on u.id = s.user_id
+            where s.google_id is not null
+            on conflict do nothing
+        `);
+
+        const verified = await tx.execute(sql`
+            update users u
+            set email_verified_at = now()
+            from ${sql.identifier(SNAPSHOT_TABLE)} s
+            where u.id = s.user_id and s.grandfathered and u.email_verified_at is null
+        `);
+
+        await tx.execute(sql`drop table ${sql.identifier(SNAPSHOT_TABLE)}`);
+
+        logger.info(
+            `Upgrade finished: ${linked.rowCount ?? 0} Google link(s) moved, ` +
+                `${verified.rowCount ?? 0} existing account(s) marked verified`
+        );
+    });
+};
+
+/**
+ * Data upgrade for deployments created before linked identities and email
+ * verification. Run `npm run db:upgrade` once before and once after
+ * `npm run db:migrate`; fresh databases need neither run
+ */
+const upgrade = async () => {
+    try {
+        if (!(await tableExists('users'))) {
+            logger.info('No users table yet, nothing to do');
+        } else if (await tableExists(SNAPSHOT_TABLE)) {
+            await apply();
+        } else {
+            await snapshot();
+        }
+
+        await closeConnection();
+        process.exit(0);
+    } catch (error) {
+        logger.error('Upgrade failed:', error);
+        process.exit(1);
+    }
+};
+
+upgrade();
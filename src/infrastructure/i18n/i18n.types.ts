@@ -0,0 +1,11 @@
+/**
+ * Locales the API answers in; the first is the fallback when nothing else matches
+ */
+export const SUPPORTED_LOCALES = ['en', 'id'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+export type MessageParams = Record<string, string | number>;
@@ -0,0 +1,54 @@
+import { ERROR_CATALOG, ErrorCode, ErrorParams, ErrorText, formatErrorDetail } from '../../utils/error-catalog';
+import { getRequestContext } from '../../utils/request-context';
+import { config } from '../../config/env';
+import { Locale, MessageParams } from './i18n.types';
+import { en, MessageKey } from './locales/en';
+import { id, idErrors } from './locales/id';
+import { createZodErrorMap } from './zod-error-map';
+
+const messages: Record<Locale, Record<MessageKey, string>> = { en, id };
+
+// English error texts are the catalog itself
+const errorTexts: Record<Locale, Record<ErrorCode, ErrorText>> = { en: ERROR_CATALOG, id: idErrors };
+
+/**
+ * Locale of the request being handled (see the locale middleware),
+ * DEFAULT_LOCALE outside requests
+ */
+export const currentLocale = (): Locale => getRequestContext()?.locale ?? config.DEFAULT_LOCALE;
+
+export const isMessageKey = (value: string): value is MessageKey => value in en;
+
+/**
+ * Translate a message into the locale of the current request
+ * `{name}` placeholders are filled from params
+ *
+ * Usage:
+ * res.status(201).json({ success: true, message: t('user.created'), data: user });
+ */
+export const t = (key: MessageKey, params: MessageParams = {}, locale: Locale = currentLocale()): string =>
+    messages[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params[name] !== undefined ? String(params[name]) : placeholder
+    );
+
+/**
+ * Title and detail of a catalog error in the locale of the current request
+ */
+export const translateError = (
+    code: ErrorCode,
+    params: ErrorParams = {},
+    locale: Locale = currentLocale()
+): ErrorText => {
+    const text = errorTexts[locale][code];
+    return { title: text.title, detail: formatErrorDetail(code, params, text) };
+};
+
+/**
+ * Zod error map translating validation messages into the locale of the
+ * current request; passed to parseAsync by validate()
+ */
+export const zodErrorMap = createZodErrorMap((key, params) => t(key, params));
+
+export { SUPPORTED_LOCALES, isSupportedLocale } from './i18n.types';
+export type { Locale, MessageParams } from './i18n.types';
+export type { MessageKey } from './locales/en';
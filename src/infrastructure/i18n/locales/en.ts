@@ -0,0 +1,75 @@
+/**
+ * English messages, the reference catalog
+ * Every other locale must translate every key (enforced by MessageKey).
+ * Error titles and details are not repeated here: the English text of an
+ * error lives in the error catalog (src/utils/error-catalog.ts).
+ */
+export const en = {
+    // Auth
+    'auth.logged_in': 'User logged in successfully',
+    'auth.registered': 'User registered successfully',
+    'auth.token_refreshed': 'User refreshed token successfully',
+    'auth.logged_out': 'User logged out successfully',
+    'auth.logged_out_all': 'Logged out of all sessions successfully',
+    'auth.identities_retrieved': 'Sign-in methods retrieved successfully',
+    'auth.identity_linked': 'Identity linked successfully',
+    'auth.identity_unlinked': 'Identity unlinked successfully',
+    'auth.providers_retrieved': 'Identity providers retrieved successfully',
+    'auth.email_verified': 'Email verified successfully',
+    'auth.verification_sent': 'If the account exists and is unverified, a verification email has been sent',
+    'auth.mfa_setup_started': 'MFA setup started, confirm it with a code from your authenticator app',
+    'auth.mfa_enabled': 'MFA enabled successfully, store the recovery codes safely',
+    'auth.mfa_disabled': 'MFA disabled successfully',
+    'auth.recovery_codes_regenerated': 'Recovery codes regenerated successfully',
+    'auth.password_reset_sent': 'If the account exists, a password reset email has been sent',
+    'auth.password_reset': 'Password reset successfully',
+    'auth.sessions_retrieved': 'Sessions retrieved successfully',
+    'auth.session_revoked': 'Session revoked successfully',
+    'auth.other_sessions_revoked': 'Other sessions revoked successfully',
+
+    // Users
+    'user.created': 'User created successfully',
+    'user.list_retrieved': 'Users retrieved successfully',
+    'user.retrieved': 'User retrieved successfully',
+    'user.updated': 'User updated successfully',
+    'user.deleted': 'User deleted successfully',
+    'user.restored': 'User restored successfully',
+    'user.unlocked': 'User unlocked successfully',
+
+    // Roles
+    'role.list_retrieved': 'Roles retrieved successfully',
+    'role.user_roles_retrieved': 'User roles retrieved successfully',
+    'role.assigned': 'Role assigned successfully',
+    'role.revoked': 'Role revoked successfully',
+
+    // Audit
+    'audit.list_retrieved': 'Audit logs retrieved successfully',
+
+    // Validation, by Zod issue (see zod-error-map.ts)
+    'validation.required': 'Required',
+    'validation.invalid_type': 'Expected {expected}, received {received}',
+    'validation.integer': 'Must be an integer',
+    'validation.string.empty': 'Must not be empty',
+    'validation.string.too_short': 'Must be at least {minimum} characters',
+    'validation.string.too_long': 'Must be at most {maximum} characters',
+    'validation.string.exact': 'Must be exactly {length} characters',
+    'validation.number.too_small': 'Must be at least {minimum}',
+    'validation.number.too_small_exclusive': 'Must be greater than {minimum}',
+    'validation.number.too_big': 'Must be at most {maximum}',
+    'validation.number.too_big_exclusive': 'Must be less than {maximum}',
+    'validation.array.too_small': 'Must contain at least {minimum} items',
+    'validation.array.too_big': 'Must contain at most {maximum} items',
+    'validation.email': 'Invalid email address',
+    'validation.uuid': 'Invalid ID format',
+    'validation.url': 'Invalid URL',
+    'validation.datetime': 'Invalid date and time',
+    'validation.format': 'Invalid format',
+    'validation.enum': 'Must be one of: {options}',
+    'validation.date': 'Invalid date',
+    'validation.invalid': 'Invalid value',
+
+    // Validation messages referenced by key from schemas
+    'validation.mfa_code': 'Code must be 6 digits',
+} as const;
+
+export type MessageKey = keyof typeof en;
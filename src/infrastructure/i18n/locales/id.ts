@@ -0,0 +1,190 @@
+import { ErrorCode, ErrorText } from '../../../utils/error-catalog';
+import { MessageKey } from './en';
+
+/**
+ * Indonesian (Bahasa Indonesia) messages
+ */
+export const id: Record<MessageKey, string> = {
+    // Auth
+    'auth.logged_in': 'Berhasil masuk',
+    'auth.registered': 'Pendaftaran berhasil',
+    'auth.token_refreshed': 'Token berhasil diperbarui',
+    'auth.logged_out': 'Berhasil keluar',
+    'auth.logged_out_all': 'Berhasil keluar dari semua sesi',
+    'auth.identities_retrieved': 'Metode masuk berhasil diambil',
+    'auth.identity_linked': 'Identitas berhasil ditautkan',
+    'auth.identity_unlinked': 'Tautan identitas berhasil dilepas',
+    'auth.providers_retrieved': 'Penyedia identitas berhasil diambil',
+    'auth.email_verified': 'Email berhasil diverifikasi',
+    'auth.verification_sent': 'Jika akun tersebut ada dan belum diverifikasi, email verifikasi telah dikirim',
+    'auth.mfa_setup_started': 'Penyiapan MFA dimulai, konfirmasikan dengan kode dari aplikasi autentikator Anda',
+    'auth.mfa_enabled': 'MFA berhasil diaktifkan, simpan kode pemulihan di tempat yang aman',
+    'auth.mfa_disabled': 'MFA berhasil dinonaktifkan',
+    'auth.recovery_codes_regenerated': 'Kode pemulihan berhasil dibuat ulang',
+    'auth.password_reset_sent': 'Jika akun tersebut ada, email untuk mengatur ulang kata sandi telah dikirim',
+    'auth.password_reset': 'Kata sandi berhasil diatur ulang',
+    'auth.sessions_retrieved': 'Sesi berhasil diambil',
+    'auth.session_revoked': 'Sesi berhasil dicabut',
+    'auth.other_sessions_revoked': 'Sesi lainnya berhasil dicabut',
+
+    // Users
+    'user.created': 'Pengguna berhasil dibuat',
+    'user.list_retrieved': 'Daftar pengguna berhasil diambil',
+    'user.retrieved': 'Pengguna berhasil diambil',
+    'user.updated': 'Pengguna berhasil diperbarui',
+    'user.deleted': 'Pengguna berhasil dihapus',
+    'user.restored': 'Pengguna berhasil dipulihkan',
+    'user.unlocked': 'Kunci pengguna berhasil dibuka',
+
+    // Roles
+    'role.list_retrieved': 'Daftar peran berhasil diambil',
+    'role.user_roles_retrieved': 'Peran pengguna berhasil diambil',
+    'role.assigned': 'Peran berhasil diberikan',
+    'role.revoked': 'Peran berhasil dicabut',
+
+    // Audit
+    'audit.list_retrieved': 'Log audit berhasil diambil',
+
+    // Validation, by Zod issue (see zod-error-map.ts)
+    'validation.required': 'Wajib diisi',
+    'validation.invalid_type': 'Seharusnya {expected}, diterima {received}',
+    'validation.integer': 'Harus berupa bilangan bulat',
+    'validation.string.empty': 'Tidak boleh kosong',
+    'validation.string.too_short': 'Minimal {minimum} karakter',
+    'validation.string.too_long': 'Maksimal {maximum} karakter',
+    'validation.string.exact': 'Harus tepat {length} karakter',
+    'validation.number.too_small': 'Minimal {minimum}',
+    'validation.number.too_small_exclusive': 'Harus lebih dari {minimum}',
+    'validation.number.too_big': 'Maksimal {maximum}',
+    'validation.number.too_big_exclusive': 'Harus kurang dari {maximum}',
+    'validation.array.too_small': 'Minimal berisi {minimum} item',
+    'validation.array.too_big': 'Maksimal berisi {maximum} item',
+    'validation.email': 'Alamat email tidak valid',
+    'validation.uuid': 'Format ID tidak valid',
+    'validation.url': 'URL tidak valid',
+    'validation.datetime': 'Tanggal dan waktu tidak valid',
+    'validation.format': 'Format tidak valid',
+    'validation.enum': 'Harus salah satu dari: {options}',
+    'validation.date': 'Tanggal tidak valid',
+    'validation.invalid': 'Nilai tidak valid',
+
+    // Validation messages referenced by key from schemas
+    'validation.mfa_code': 'Kode harus terdiri dari 6 digit',
+};
+
+/**
+ * Indonesian error texts, one per catalog code
+ */
+export const idErrors: Record<ErrorCode, ErrorText> = {
+    // Request handling
+    VALIDATION_FAILED: { title: 'Kesalahan Validasi', detail: 'Permintaan berisi kolom yang tidak valid' },
+    REQUEST_MALFORMED_JSON: { title: 'Body JSON tidak valid' },
+    REQUEST_BODY_TOO_LARGE: { title: 'Body permintaan terlalu besar' },
+    ROUTE_NOT_FOUND: { title: 'Rute tidak ditemukan', detail: 'Rute {path} tidak ditemukan' },
+    RATE_LIMITED: {
+        title: 'Terlalu banyak permintaan',
+        detail: 'Terlalu banyak permintaan, coba lagi dalam {retryAfter} detik',
+    },
+    INTERNAL_ERROR: { title: 'Kesalahan Server Internal' },
+
+    // Database constraints without a more specific code
+    RESOURCE_CONFLICT: { title: 'Data sudah ada' },
+    INVALID_REFERENCE: { title: 'Referensi tidak valid' },
+    REQUIRED_FIELD_MISSING: { title: 'Kolom wajib tidak diisi', detail: 'Kolom {column} wajib diisi' },
+    INVALID_VALUE: { title: 'Nilai tidak valid' },
+    CONCURRENT_UPDATE: {
+        title: 'Pembaruan bersamaan',
+        detail: 'Permintaan bentrok dengan permintaan lain, silakan coba lagi',
+    },
+    DATABASE_ERROR: { title: 'Kesalahan basis data' },
+
+    // Pagination
+    PAGINATION_INVALID_CURSOR: { title: 'Cursor tidak valid' },
+    PAGINATION_CURSOR_SORT_MISMATCH: { title: 'Cursor tidak sesuai dengan urutan yang diminta' },
+    PAGINATION_MODE_CONFLICT: { title: 'Gunakan page atau cursor, jangan keduanya' },
+
+    // Authentication and authorization
+    AUTH_REQUIRED: { title: 'Autentikasi diperlukan' },
+    AUTH_INVALID_HEADER: { title: 'Header otorisasi tidak valid' },
+    AUTH_ACCESS_TOKEN_INVALID: { title: 'Token akses tidak valid' },
+    AUTH_ACCESS_TOKEN_EXPIRED: { title: 'Token akses kedaluwarsa' },
+    AUTH_ACCESS_TOKEN_REVOKED: { title: 'Token akses telah dicabut' },
+    AUTH_INSUFFICIENT_PERMISSIONS: { title: 'Izin tidak mencukupi' },
+    AUTH_NOT_RESOURCE_OWNER: { title: 'Anda tidak memiliki akses ke sumber daya ini' },
+    AUTH_EMAIL_NOT_VERIFIED: { title: 'Alamat email belum diverifikasi' },
+    AUTH_ACCOUNT_DELETED: { title: 'Akun ini telah dihapus' },
+    AUTH_INVALID_CREDENTIALS: { title: 'Email atau kata sandi salah' },
+    AUTH_LOGIN_LOCKED: {
+        title: 'Terlalu banyak percobaan masuk yang gagal',
+        detail: 'Terlalu banyak percobaan masuk yang gagal, coba lagi dalam {retryAfter} detik',
+    },
+    AUTH_REFRESH_TOKEN_MISSING: { title: 'Token tidak dikirim' },
+    AUTH_REFRESH_TOKEN_INVALID: { title: 'Refresh token tidak valid' },
+    AUTH_REFRESH_TOKEN_REVOKED: { title: 'Refresh token telah dicabut' },
+    AUTH_REFRESH_TOKEN_EXPIRED: { title: 'Refresh token kedaluwarsa' },
+    AUTH_REFRESH_TOKEN_REUSED: { title: 'Refresh token terdeteksi dipakai ulang' },
+    AUTH_LOGOUT_TOKEN_REQUIRED: { title: 'Token wajib dikirim' },
+    AUTH_SESSION_NOT_FOUND: { title: 'Sesi tidak ditemukan' },
+    AUTH_METRICS_TOKEN_INVALID: { title: 'Token metrics tidak valid' },
+
+    // Email verification and password reset
+    VERIFICATION_TOKEN_INVALID: { title: 'Token verifikasi tidak valid' },
+    VERIFICATION_TOKEN_EXPIRED: { title: 'Token verifikasi kedaluwarsa' },
+    PASSWORD_RESET_TOKEN_INVALID: { title: 'Token atur ulang kata sandi tidak valid' },
+    PASSWORD_RESET_TOKEN_EXPIRED: { title: 'Token atur ulang kata sandi kedaluwarsa' },
+
+    // Two-factor authentication
+    MFA_CHALLENGE_INVALID: { title: 'Tantangan MFA tidak valid atau kedaluwarsa' },
+    MFA_CODE_INVALID: { title: 'Kode MFA salah' },
+    MFA_RECOVERY_CODE_INVALID: { title: 'Kode pemulihan salah' },
+    MFA_CODE_REQUIRED: { title: 'Kode MFA atau kode pemulihan wajib diisi' },
+    MFA_SETUP_NOT_STARTED: { title: 'Penyiapan MFA belum dimulai' },
+    MFA_SETUP_CODE_INVALID: { title: 'Kode MFA salah' },
+    MFA_ALREADY_ENABLED: { title: 'MFA sudah aktif' },
+    MFA_NOT_ENABLED: { title: 'MFA belum aktif' },
+
+    // Identity providers (Google, OIDC) and the authorization-code flow
+    OIDC_UNKNOWN_PROVIDER: { title: 'Penyedia identitas tidak dikenal' },
+    OIDC_ID_TOKEN_INVALID: { title: 'ID token tidak valid' },
+    OIDC_EMAIL_MISSING: { title: 'Penyedia identitas tidak mengirimkan alamat email' },
+    OIDC_CODE_FLOW_UNSUPPORTED: { title: 'Penyedia identitas tidak mendukung alur authorization-code' },
+    OIDC_CODE_EXCHANGE_FAILED: { title: 'Penukaran kode otorisasi gagal' },
+    OIDC_ID_TOKEN_MISSING: { title: 'Penyedia identitas tidak mengirimkan ID token' },
+    OIDC_PROVIDER_MISCONFIGURED: { title: 'Konfigurasi penyedia identitas salah' },
+    OIDC_PROVIDER_UNAVAILABLE: { title: 'Penyedia identitas tidak tersedia' },
+    OAUTH_STATE_INVALID: { title: 'State OAuth tidak valid' },
+    OAUTH_ACCESS_DENIED: { title: 'Otorisasi ditolak' },
+    OAUTH_REDIRECT_NOT_ALLOWED: { title: 'URL pengalihan tidak diizinkan' },
+    OAUTH_CODE_FLOW_DISABLED: { title: 'Masuk melalui browser tidak diaktifkan' },
+
+    // Linked identities
+    IDENTITY_NOT_FOUND: { title: 'Identitas tidak ditemukan' },
+    IDENTITY_ALREADY_LINKED: { title: 'Akun ini sudah ditautkan' },
+    IDENTITY_LINKED_TO_OTHER_USER: { title: 'Akun ini sudah ditautkan ke pengguna lain' },
+    IDENTITY_PROVIDER_ALREADY_LINKED: {
+        title: 'Penyedia sudah ditautkan',
+        detail: 'Akun {provider} sudah ditautkan',
+    },
+    IDENTITY_PROVIDER_MISMATCH: {
+        title: 'Tertaut ke akun penyedia lain',
+        detail: 'Akun ini sudah ditautkan ke akun {provider} yang berbeda',
+    },
+    IDENTITY_LINK_REQUIRED: {
+        title: 'Akun sudah ada',
+        detail: 'Akun dengan email ini sudah ada, masuk lalu tautkan {provider} dari akun Anda',
+    },
+    IDENTITY_LAST_SIGN_IN_METHOD: {
+        title: 'Metode masuk terakhir tidak dapat dilepas',
+        detail: 'Metode masuk terakhir tidak dapat dilepas, atur kata sandi terlebih dahulu',
+    },
+
+    // Users
+    USER_NOT_FOUND: { title: 'Pengguna tidak ditemukan' },
+    USER_DELETED_NOT_FOUND: { title: 'Pengguna yang dihapus tidak ditemukan' },
+    USER_EMAIL_TAKEN: { title: 'Email sudah terdaftar' },
+
+    // Roles
+    ROLE_NOT_FOUND: { title: 'Peran tidak ditemukan', detail: 'Peran "{role}" tidak ditemukan' },
+    ROLE_NOT_ASSIGNED: { title: 'Peran ini tidak dimiliki pengguna' },
+    ROLE_LAST_ADMIN: { title: 'Admin terakhir tidak dapat dicabut' },
+};
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z, ZodTypeAny } from 'zod';
+import { zodErrorMap } from './index';
+import { Locale } from './i18n.types';
+import { runWithRequestContext } from '../../utils/request-context';
+
+/**
+ * Messages of the issues raised for input, as validate() would produce them
+ */
+const messages = (schema: ZodTypeAny, input: unknown, locale: Locale = 'en') =>
+    runWithRequestContext({ requestId: 'test', locale }, () => {
+        const result = schema.safeParse(input, { errorMap: zodErrorMap });
+        assert.ok(!result.success, 'expected the input to be rejected');
+        return result.error.issues.map((issue) => issue.message);
+    });
+
+describe('zodErrorMap', () => {
+    it('reports missing and mistyped values', () => {
+        const schema = z.object({ name: z.string(), age: z.number().int() });
+
+        assert.deepEqual(messages(schema, {}), ['Required', 'Required']);
+        assert.deepEqual(messages(schema, { name: 1, age: 1.5 }), [
+            'Expected string, received number',
+            'Must be an integer',
+        ]);
+    });
+
+    it('includes the bounds of strings, numbers and arrays', () => {
+        assert.deepEqual(messages(z.string().min(1), ''), ['Must not be empty']);
+        assert.deepEqual(messages(z.string().min(8), 'short'), ['Must be at least 8 characters']);
+        assert.deepEqual(messages(z.string().max(3), 'long'), ['Must be at most 3 characters']);
+        assert.deepEqual(messages(z.string().length(6), '123'), ['Must be exactly 6 characters']);
+        assert.deepEqual(messages(z.number().positive(), 0), ['Must be greater than 0']);
+        assert.deepEqual(messages(z.number().max(100), 101), ['Must be at most 100']);
+        assert.deepEqual(messages(z.array(z.string()).min(2), ['a']), ['Must contain at least 2 items']);
+    });
+
+    it('names string formats and enum options', () => {
+        assert.deepEqual(messages(z.string().email(), 'nope'), ['Invalid email address']);
+        assert.deepEqual(messages(z.string().uuid(), 'nope'), ['Invalid ID format']);
+        assert.deepEqual(messages(z.string().regex(/^a/), 'b'), ['Invalid format']);
+        assert.deepEqual(messages(z.enum(['en', 'id']), 'fr'), ['Must be one of: en, id']);
+    });
+
+    it('falls back to a generic message', () => {
+        const schema = z.string().refine((value) => value === 'ok');
+
+        assert.deepEqual(messages(schema, 'not ok'), ['Invalid value']);
+    });
+
+    it('leaves messages given by the schema alone', () => {
+        assert.deepEqual(messages(z.string().regex(/^\d{6}$/, 'validation.mfa_code'), '12'), ['validation.mfa_code']);
+    });
+
+    it('answers in the locale of the request', () => {
+        const schema = z.object({ email: z.string().email(), password: z.string().min(8) });
+
+        assert.deepEqual(messages(schema, { email: 'nope', password: 'short' }, 'id'), [
+            'Alamat email tidak valid',
+            'Minimal 8 karakter',
+        ]);
+        assert.deepEqual(messages(schema, {}, 'id'), ['Wajib diisi', 'Wajib diisi']);
+    });
+});
@@ -0,0 +1,78 @@
+import { ZodErrorMap, ZodIssueCode } from 'zod';
+import { MessageKey } from './locales/en';
+import { MessageParams } from './i18n.types';
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const STRING_FORMATS: Record<string, MessageKey> = {
+    email: 'validation.email',
+    uuid: 'validation.uuid',
+    url: 'validation.url',
+    datetime: 'validation.datetime',
+};
+
+/**
+ * Build a Zod error map producing messages in one locale
+ * Messages follow the issue code and its bounds, so schemas only pass a
+ * message (as a message key) when the generic one would be unclear
+ */
+export const createZodErrorMap = (translate: Translate): ZodErrorMap => (issue) => {
+    switch (issue.code) {
+        case ZodIssueCode.invalid_type:
+            if (issue.received === 'undefined') return { message: translate('validation.required') };
+            if (issue.expected === 'integer') return { message: translate('validation.integer') };
+            return {
+                message: translate('validation.invalid_type', {
+                    expected: issue.expected,
+                    received: issue.received,
+                }),
+            };
+
+        case ZodIssueCode.too_small: {
+            const minimum = Number(issue.minimum);
+            if (issue.type === 'string') {
+                if (issue.exact) return { message: translate('validation.string.exact', { length: minimum }) };
+                if (minimum === 1) return { message: translate('validation.string.empty') };
+                return { message: translate('validation.string.too_short', { minimum }) };
+            }
+            if (issue.type === 'number' || issue.type === 'bigint') {
+                const key = issue.inclusive ? 'validation.number.too_small' : 'validation.number.too_small_exclusive';
+                return { message: translate(key, { minimum }) };
+            }
+            if (issue.type === 'array' || issue.type === 'set') {
+                return { message: translate('validation.array.too_small', { minimum }) };
+            }
+            break;
+        }
+
+        case ZodIssueCode.too_big: {
+            const maximum = Number(issue.maximum);
+            if (issue.type === 'string') {
+                if (issue.exact) return { message: translate('validation.string.exact', { length: maximum }) };
+                return { message: translate('validation.string.too_long', { maximum }) };
+            }
+            if (issue.type === 'number' || issue.type === 'bigint') {
+                const key = issue.inclusive ? 'validation.number.too_big' : 'validation.number.too_big_exclusive';
+                return { message: translate(key, { maximum }) };
+            }
+            if (issue.type === 'array' || issue.type === 'set') {
+                return { message: translate('validation.array.too_big', { maximum }) };
+            }
+            break;
+        }
+
+        case ZodIssueCode.invalid_string: {
+            const format = typeof issue.validation === 'string' ? STRING_FORMATS[issue.validation] : undefined;
+            return { message: translate(format ?? 'validation.format') };
+        }
+
+        case ZodIssueCode.invalid_enum_value:
+            return { message: translate('validation.enum', { options: issue.options.join(', ') }) };
+
+        case ZodIssueCode.invalid_date:
+            return { message: translate('validation.date') };
+    }
+
+    // Date bounds and rarer issues (unions, refinements without a message, ...)
+    return { message: translate('validation.invalid') };
+};
@@ -0,0 +1,25 @@
+import { config } from '../../config/env';
+import { logger } from '../../middleware/logger.middleware';
+import { KeyRing } from './keyring';
+
+export { KeyRing } from './keyring';
+export type { KeyRingKey, SigningAlgorithm } from './keyring';
+
+/**
+ * Create the key ring from JWT_KEYS_DIR
+ * Outside production a missing directory falls back to an ephemeral key
+ */
+const createKeyRing = (): KeyRing => {
+    if (config.JWT_KEYS_DIR) {
+        return KeyRing.fromDirectory(config.JWT_KEYS_DIR, config.JWT_ACTIVE_KID);
+    }
+
+    logger.warn('JWT_KEYS_DIR is not set, signing access tokens with an ephemeral key');
+    return KeyRing.ephemeral();
+};
+
+/**
+ * Application key ring
+ * Signs access tokens and backs /.well-known/jwks.json
+ */
+export const keyRing = createKeyRing();
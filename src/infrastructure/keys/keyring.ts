@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { exportJWK, JWK } from 'jose';
+
+export type SigningAlgorithm = 'RS256' | 'EdDSA';
+
+export type KeyRingKey = {
+    kid: string;
+    alg: SigningAlgorithm;
+    publicKey: crypto.KeyObject;
+    /** Absent for retired keys that only verify tokens issued before a rotation */
+    privateKey?: crypto.KeyObject;
+};
+
+const algorithmOf = (key: crypto.KeyObject): SigningAlgorithm => {
+    switch (key.asymmetricKeyType) {
+        case 'rsa':
+            return 'RS256';
+        case 'ed25519':
+            return 'EdDSA';
+        default:
+            throw new Error(`Unsupported signing key type: ${key.asymmetricKeyType}`);
+    }
+};
+
+/**
+ * Set of asymmetric keys for signing and verifying our JWTs
+ * - One active key signs; every key in the ring verifies, so tokens signed
+ *   before a rotation stay valid until they expire
+ * - Tokens carry the key id in the `kid` header
+ */
+export class KeyRing {
+    private readonly keys = new Map<string, KeyRingKey>();
+    private readonly activeKid: string;
+
+    constructor(keys: KeyRingKey[], activeKid?: string) {
+        for (const key of keys) {
+            this.keys.set(key.kid, key);
+        }
+
+        const signers = keys.filter((key) => key.privateKey).map((key) => key.kid).sort();
+        const kid = activeKid ?? signers[signers.length - 1];
+
+        if (!kid || !this.keys.get(kid)?.privateKey) {
+            throw new Error(`No private key for active key id "${kid ?? ''}"`);
+        }
+
+        this.activeKid = kid;
+    }
+
+    /**
+     * Load `<kid>.pem` files from a directory
+     * - Private keys (PKCS#8) can sign and are published by their public part
+     * - Public keys (SPKI) are retired keys kept for verification only
+     * - Without activeKid the alphabetically last private key signs, so
+     *   date-based key ids (e.g. 2026-10-01) rotate by adding a file
+     */
+    static fromDirectory(dir: string, activeKid?: string): KeyRing {
+        const keys = fs
+            .readdirSync(dir)
+            .filter((file) => file.endsWith('.pem'))
+            .map((file): KeyRingKey => {
+                const kid = path.basename(file, '.pem');
+                const pem = fs.readFileSync(path.join(dir, file), 'utf8');
+
+                if (pem.includes('PRIVATE KEY')) {
+                    const privateKey = crypto.createPrivateKey(pem);
+                    const publicKey = crypto.createPublicKey(privateKey);
+                    return { kid, alg: algorithmOf(publicKey), publicKey, privateKey };
+                }
+
+                const publicKey = crypto.createPublicKey(pem);
+                return { kid, alg: algorithmOf(publicKey), publicKey };
+            });
+
+        return new KeyRing(keys, activeKid);
+    }
+
+    /**
+     * Single in-memory key for development
+     * Tokens do not survive a restart and cannot be shared across instances
+     */
+    static ephemeral(alg: SigningAlgorithm = 'EdDSA'): KeyRing {
+        const { privateKey, publicKey } =
+            alg === 'EdDSA'
+                ? crypto.generateKeyPairSync('ed25519')
+                : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+        return new KeyRing([{ kid: `ephemeral-${crypto.randomUUID()}`, alg, publicKey, privateKey }]);
+    }
+
+    get signingKey(): Required<KeyRingKey> {
+        return this.keys.get(this.activeKid) as Required<KeyRingKey>;
+    }
+
+    /**
+     * Key that verifies tokens with the given kid
+     * Throws for unknown kids, including tokens without one
+     */
+    getVerificationKey(kid: string | undefined): KeyRingKey {
+        const key = kid ? this.keys.get(kid) : undefined;
+        if (!key) {
+            throw new Error(`Unknown signing key id "${kid ?? ''}"`);
+        }
+        return key;
+    }
+
+    get algorithms(): SigningAlgorithm[] {
+        return [...new Set([...this.keys.values()].map((key) => key.alg))];
+    }
+
+    /**
+     * Public keys as a JWK Set, for /.well-known/jwks.json
+     */
+    async jwks(): Promise<{ keys: JWK[] }> {
+        const keys = await Promise.all(
+            [...this.keys.values()].map(async (key) => ({
+                ...(await exportJWK(key.publicKey)),
+                kid: key.kid,
+                alg: key.alg,
+                use: 'sig',
+            }))
+        );
+
+        return { keys };
+    }
+}
@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { Mailer, MailMessage } from './mail.types';
+
+/**
+ * File mailer for local development
+ * Writes each message as a JSON file instead of delivering it
+ */
+export class FileMailer implements Mailer {
+    constructor(
+        private readonly directory: string,
+        private readonly from: string
+    ) {}
+
+    async send(message: MailMessage): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+
+        const fileName = `${Date.now()}-${crypto.randomUUID()}.json`;
+        const content = { from: this.from, sentAt: new Date().toISOString(), ...message };
+
+        await writeFile(path.join(this.directory, fileName), JSON.stringify(content, null, 2));
+    }
+}
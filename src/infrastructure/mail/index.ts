@@ -0,0 +1,37 @@
+import { config } from '../../config/env';
+import { Mailer } from './mail.types';
+import { SmtpMailer } from './smtp.mailer';
+import { FileMailer } from './file.mailer';
+import { MemoryMailer } from './memory.mailer';
+
+export type { Mailer, MailMessage } from './mail.types';
+export { SmtpMailer } from './smtp.mailer';
+export { FileMailer } from './file.mailer';
+export { MemoryMailer } from './memory.mailer';
+
+/**
+ * Create the mailer selected by MAIL_TRANSPORT
+ */
+const createMailer = (): Mailer => {
+    switch (config.MAIL_TRANSPORT) {
+        case 'smtp':
+            return new SmtpMailer({
+                host: config.SMTP_HOST!,
+                port: config.SMTP_PORT,
+                secure: config.SMTP_SECURE,
+                user: config.SMTP_USER,
+                password: config.SMTP_PASSWORD,
+                from: config.MAIL_FROM,
+            });
+        case 'memory':
+            return new MemoryMailer();
+        case 'file':
+            return new FileMailer(config.MAIL_FILE_DIR, config.MAIL_FROM);
+    }
+};
+
+/**
+ * Application mailer
+ * Import this in services to send email
+ */
+export const mailer = createMailer();
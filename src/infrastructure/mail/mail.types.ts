@@ -0,0 +1,17 @@
+/**
+ * Outgoing email message
+ */
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+};
+
+/**
+ * Mail transport abstraction
+ * Services depend on this interface, never on a concrete transport
+ */
+export interface Mailer {
+    send(message: MailMessage): Promise<void>;
+}
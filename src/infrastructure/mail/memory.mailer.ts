@@ -0,0 +1,17 @@
+import { Mailer, MailMessage } from './mail.types';
+
+/**
+ * In-memory mailer for tests
+ * Sent messages are kept in `outbox` for assertions
+ */
+export class MemoryMailer implements Mailer {
+    readonly outbox: MailMessage[] = [];
+
+    async send(message: MailMessage): Promise<void> {
+        this.outbox.push(message);
+    }
+
+    clear(): void {
+        this.outbox.length = 0;
+    }
+}
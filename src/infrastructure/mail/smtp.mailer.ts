@@ -0,0 +1,31 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { Mailer, MailMessage } from './mail.types';
+
+export type SmtpMailerOptions = {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+};
+
+/**
+ * SMTP mailer backed by nodemailer
+ */
+export class SmtpMailer implements Mailer {
+    private readonly transporter: Transporter;
+
+    constructor(private readonly options: SmtpMailerOptions) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.password } : undefined,
+        });
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail({ from: this.options.from, ...message });
+    }
+}
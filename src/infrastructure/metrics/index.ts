@@ -0,0 +1,29 @@
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+
+/**
+ * Prometheus registry served at /metrics
+ * Modules register their own metrics on it (see database/index.ts, auth.metrics.ts);
+ * process metrics (CPU, memory, event loop lag, GC) are collected by default
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+/**
+ * HTTP metrics, labelled by route template (e.g. /api/users/:id) rather than
+ * the raw URL so ids do not explode the number of series
+ */
+export const httpRequestsTotal = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests handled',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency in seconds',
+    labelNames: ['method', 'route', 'status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [metricsRegistry],
+});
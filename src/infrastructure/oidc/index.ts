@@ -0,0 +1,55 @@
+import { config } from '../../config/env';
+import { AppError } from '../../middleware/error.middleware';
+import { OidcProvider } from './oidc.provider';
+
+export type {
+    OidcClaimMapping,
+    OidcDiscoveryDocument,
+    OidcFetch,
+    OidcProfile,
+    OidcProviderConfig,
+} from './oidc.types';
+export { OidcProvider } from './oidc.provider';
+
+const providers = new Map<string, OidcProvider>();
+
+/**
+ * Add a provider to the registry, replacing any provider of the same name
+ * Used at startup for configured providers, and by tests to register a
+ * provider backed by MockOidcIssuer
+ */
+export const registerOidcProvider = (provider: OidcProvider): void => {
+    providers.set(provider.name, provider);
+};
+
+/**
+ * Look up a registered provider
+ * Throws 404 for unknown names so routes can take the name from the URL
+ */
+export const getOidcProvider = (name: string): OidcProvider => {
+    const provider = providers.get(name);
+    if (!provider) {
+        throw new AppError('OIDC_UNKNOWN_PROVIDER');
+    }
+    return provider;
+};
+
+export const listOidcProviders = (): string[] => [...providers.keys()];
+
+/**
+ * Built-in Google provider, plus everything listed in OIDC_PROVIDERS
+ */
+registerOidcProvider(
+    new OidcProvider({
+        name: 'google',
+        issuer: 'https://accounts.google.com',
+        issuerAliases: ['accounts.google.com'],
+        clientId: config.GOOGLE_CLIENT_ID,
+        clientSecret: config.GOOGLE_CLIENT_SECRET,
+        redirectUri: config.GOOGLE_REDIRECT_URI,
+    })
+);
+
+for (const providerConfig of config.OIDC_PROVIDERS) {
+    registerOidcProvider(new OidcProvider(providerConfig));
+}
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcFetch } from './oidc.types';
+
+/**
+ * In-process OpenID Connect issuer for tests
+ * Serves discovery, JWKS and the token endpoint through `fetch` (pass it to
+ * OidcProvider) and signs ID tokens, so ID token verification and the
+ * authorization-code flow run without network
+ *
+ * Usage:
+ * const issuer = new MockOidcIssuer();
+ * const provider = new OidcProvider({ name: 'mock', issuer: issuer.issuer, clientId: 'api' }, issuer.fetch);
+ * await provider.verifyIdToken(issuer.signIdToken({ sub: '1', email: 'a@b.c' }, 'api'));
+ */
+export class MockOidcIssuer {
+    readonly issuer: string;
+    private privateKey!: crypto.KeyObject;
+    private publicJwk!: crypto.JsonWebKey;
+    private kid = '';
+    private codes = new Map<
+        string,
+        { claims: Record<string, unknown>; audience: string; codeChallenge: string }
+    >();
+
+    constructor(issuer = 'https://issuer.test') {
+        this.issuer = issuer;
+        this.rotateKey();
+    }
+
+    /**
+     * Replace the signing key; tokens signed before no longer verify
+     */
+    rotateKey(): void {
+        const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+        this.privateKey = privateKey;
+        this.publicJwk = publicKey.export({ format: 'jwk' });
+        this.kid = crypto.randomUUID();
+    }
+
+    /**
+     * Simulate a user approving an authorization request
+     * Pass the nonce and code_challenge from the URL built by
+     * OidcProvider.buildAuthorizationUrl; the returned code is single-use
+     */
+    issueCode(
+        claims: Record<string, unknown>,
+        request: { audience: string; nonce: string; codeChallenge: string }
+    ): string {
+        const code = crypto.randomBytes(16).toString('hex');
+        this.codes.set(code, {
+            claims: { ...claims, nonce: request.nonce },
+            audience: request.audience,
+            codeChallenge: request.codeChallenge,
+        });
+        return code;
+    }
+
+    fetch: OidcFetch = async (url, init) => {
+        if (url === `${this.issuer}/token` && init?.method === 'POST') {
+            return this._token(new URLSearchParams(init.body));
+        }
+
+        const documents: Record<string, unknown> = {
+            [`${this.issuer}/.well-known/openid-configuration`]: {
+                issuer: this.issuer,
+                jwks_uri: `${this.issuer}/jwks`,
+                authorization_endpoint: `${this.issuer}/authorize`,
+                token_endpoint: `${this.issuer}/token`,
+                id_token_signing_alg_values_supported: ['RS256'],
+            },
+            [`${this.issuer}/jwks`]: {
+                keys: [{ ...this.publicJwk, kid: this.kid, use: 'sig', alg: 'RS256' }],
+            },
+        };
+
+        const body = documents[url];
+        return {
+            ok: body !== undefined,
+            status: body !== undefined ? 200 : 404,
+            json: async () => body,
+        };
+    };
+
+    private _token(params: URLSearchParams) {
+        const code = this.codes.get(params.get('code') ?? '');
+        this.codes.delete(params.get('code') ?? '');
+
+        const challenge = crypto
+            .createHash('sha256')
+            .update(params.get('code_verifier') ?? '')
+            .digest('base64url');
+
+        const body =
+            code && code.codeChallenge === challenge && params.get('client_id') === code.audience
+                ? { id_token: this.signIdToken(code.claims, code.audience), token_type: 'Bearer' }
+                : { error: 'invalid_grant' };
+
+        return { ok: 'id_token' in body, status: 'id_token' in body ? 200 : 400, json: async () => body };
+    }
+
+    /**
+     * Sign an ID token for the given audience (client id)
+     * issuer overrides the `iss` claim, to test tokens from another issuer
+     * signed with a trusted key
+     */
+    signIdToken(
+        claims: Record<string, unknown>,
+        audience: string,
+        options: { expiresIn?: number; issuer?: string } = {}
+    ): string {
+        return jwt.sign(claims, this.privateKey, {
+            algorithm: 'RS256',
+            keyid: this.kid,
+            issuer: options.issuer ?? this.issuer,
+            audience,
+            expiresIn: options.expiresIn ?? 300,
+        });
+    }
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { MockOidcIssuer } from './mock-issuer';
+import { OidcProvider } from './oidc.provider';
+import { OidcFetch } from './oidc.types';
+
+const CLIENT_ID = 'api';
+const CLAIMS = { sub: '42', email: 'jane@example.com', email_verified: true };
+
+const invalidToken = { code: 'OIDC_ID_TOKEN_INVALID' };
+
+describe('OidcProvider against MockOidcIssuer', () => {
+    let issuer: MockOidcIssuer;
+    let provider: OidcProvider;
+    let requested: string[];
+
+    beforeEach(() => {
+        issuer = new MockOidcIssuer();
+        requested = [];
+
+        // Record every request so tests can tell when the JWKS was fetched
+        const fetch: OidcFetch = (url, init) => {
+            requested.push(url);
+            return issuer.fetch(url, init);
+        };
+        provider = new OidcProvider(
+            {
+                name: 'mock',
+                issuer: issuer.issuer,
+                clientId: CLIENT_ID,
+                redirectUri: 'http://localhost:3000/api/auth/oidc/mock/callback',
+            },
+            fetch
+        );
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    describe('verifyIdToken', () => {
+        it('maps the claims of a valid token', async () => {
+            const profile = await provider.verifyIdToken(issuer.signIdToken(CLAIMS, CLIENT_ID));
+
+            assert.deepEqual(profile, {
+                provider: 'mock',
+                subject: '42',
+                email: 'jane@example.com',
+                emailVerified: true,
+                name: undefined,
+                picture: undefined,
+            });
+        });
+
+        it('rejects a token issued to another audience', async () => {
+            await assert.rejects(provider.verifyIdToken(issuer.signIdToken(CLAIMS, 'other-client')), invalidToken);
+        });
+
+        it('rejects a token from another issuer signed with a trusted key', async () => {
+            const idToken = issuer.signIdToken(CLAIMS, CLIENT_ID, { issuer: 'https://evil.test' });
+
+            await assert.rejects(provider.verifyIdToken(idToken), invalidToken);
+        });
+
+        it('rejects an HS256 token', async () => {
+            // Signed with a secret the client knows, so anyone holding it could mint tokens
+            const idToken = jwt.sign(CLAIMS, 'client-secret', {
+                algorithm: 'HS256',
+                issuer: issuer.issuer,
+                audience: CLIENT_ID,
+            });
+
+            await assert.rejects(provider.verifyIdToken(idToken), invalidToken);
+        });
+
+        it('rejects an expired token', async () => {
+            const idToken = issuer.signIdToken(CLAIMS, CLIENT_ID, { expiresIn: -10 });
+
+            await assert.rejects(provider.verifyIdToken(idToken), invalidToken);
+        });
+
+        it('refetches the JWKS for an unknown kid after the refetch interval', async () => {
+            mock.timers.enable({ apis: ['Date'], now: Date.now() });
+            const jwksUri = `${issuer.issuer}/jwks`;
+
+            await provider.verifyIdToken(issuer.signIdToken(CLAIMS, CLIENT_ID));
+            issuer.rotateKey();
+            const rotated = issuer.signIdToken(CLAIMS, CLIENT_ID);
+
+            // Within the interval the unknown kid is rejected without hitting the issuer
+            await assert.rejects(provider.verifyIdToken(rotated), invalidToken);
+            assert.equal(requested.filter((url) => url === jwksUri).length, 1);
+
+            mock.timers.tick(61 * 1000);
+
+            await provider.verifyIdToken(rotated);
+            assert.equal(requested.filter((url) => url === jwksUri).length, 2);
+        });
+
+        it('rejects a token whose nonce does not match', async () => {
+            const idToken = issuer.signIdToken({ ...CLAIMS, nonce: 'expected' }, CLIENT_ID);
+
+            await assert.rejects(provider.verifyIdToken(idToken, { nonce: 'other' }), invalidToken);
+            await assert.rejects(provider.verifyIdToken(issuer.signIdToken(CLAIMS, CLIENT_ID), { nonce: 'expected' }), invalidToken);
+        });
+    });
+
+    describe('exchangeCode', () => {
+        const verifier = crypto.randomBytes(32).toString('base64url');
+        const codeChallenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+        it('exchanges a code for an ID token bound to the nonce', async () => {
+            const code = issuer.issueCode(CLAIMS, { audience: CLIENT_ID, nonce: 'n-1', codeChallenge });
+
+            const idToken = await provider.exchangeCode(code, verifier);
+            const profile = await provider.verifyIdToken(idToken, { nonce: 'n-1' });
+
+            assert.equal(profile.subject, '42');
+        });
+
+        it('rejects the ID token when the nonce differs from the authorization request', async () => {
+            const code = issuer.issueCode(CLAIMS, { audience: CLIENT_ID, nonce: 'n-1', codeChallenge });
+
+            const idToken = await provider.exchangeCode(code, verifier);
+
+            await assert.rejects(provider.verifyIdToken(idToken, { nonce: 'n-2' }), invalidToken);
+        });
+
+        it('rejects a wrong PKCE verifier', async () => {
+            const code = issuer.issueCode(CLAIMS, { audience: CLIENT_ID, nonce: 'n-1', codeChallenge });
+
+            await assert.rejects(provider.exchangeCode(code, 'wrong-verifier'), { code: 'OIDC_CODE_EXCHANGE_FAILED' });
+        });
+
+        it('rejects a code used twice', async () => {
+            const code = issuer.issueCode(CLAIMS, { audience: CLIENT_ID, nonce: 'n-1', codeChallenge });
+
+            await provider.exchangeCode(code, verifier);
+
+            await assert.rejects(provider.exchangeCode(code, verifier), { code: 'OIDC_CODE_EXCHANGE_FAILED' });
+        });
+
+        it('rejects a code issued to another client', async () => {
+            const code = issuer.issueCode(CLAIMS, { audience: 'other-client', nonce: 'n-1', codeChallenge });
+
+            await assert.rejects(provider.exchangeCode(code, verifier), { code: 'OIDC_CODE_EXCHANGE_FAILED' });
+        });
+    });
+});
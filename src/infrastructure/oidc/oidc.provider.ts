@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+import { AppError } from '../../middleware/error.middleware';
+import { logger } from '../../middleware/logger.middleware';
+import {
+    OidcClaimMapping,
+    OidcDiscoveryDocument,
+    OidcFetch,
+    OidcProfile,
+    OidcProviderConfig,
+} from './oidc.types';
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+// Unknown kids trigger a JWKS refetch (key rotation), but not more often than this
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+
+// Asymmetric algorithms only: HS* would let anyone holding the client secret mint tokens
+const SUPPORTED_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+const DEFAULT_CLAIMS: OidcClaimMapping = {
+    subject: 'sub',
+    email: 'email',
+    emailVerified: 'email_verified',
+    name: 'name',
+    picture: 'picture',
+};
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+/**
+ * OpenID Connect provider
+ * - Reads the issuer's discovery document and JWKS, both cached
+ * - Verifies ID token signature, issuer, audience, expiry and nonce
+ * - Maps claims onto an OidcProfile through the configured claim mapping
+ */
+export class OidcProvider {
+    readonly name: string;
+    readonly config: OidcProviderConfig;
+    private readonly claims: OidcClaimMapping;
+    private readonly fetchJson: OidcFetch;
+
+    private discovery?: { document: OidcDiscoveryDocument; fetchedAt: number };
+    private keys = new Map<string, crypto.KeyObject>();
+    private keysFetchedAt = 0;
+
+    constructor(config: OidcProviderConfig, fetchJson: OidcFetch = fetch) {
+        this.name = config.name;
+        this.config = config;
+        this.claims = { ...DEFAULT_CLAIMS, ...config.claims };
+        this.fetchJson = fetchJson;
+    }
+
+    /**
+     * Discovery document, fetched on first use and refreshed hourly
+     */
+    async discover(): Promise<OidcDiscoveryDocument> {
+        if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_TTL_MS) {
+            return this.discovery.document;
+        }
+
+        const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+        const document = (await this._get(url)) as OidcDiscoveryDocument;
+
+        if (document.issuer !== this.config.issuer || !document.jwks_uri) {
+            logger.error('OIDC discovery document does not match the configured issuer', {
+                provider: this.name,
+                issuer: document.issuer,
+            });
+            throw new AppError('OIDC_PROVIDER_MISCONFIGURED');
+        }
+
+        this.discovery = { document, fetchedAt: Date.now() };
+        return document;
+    }
+
+    /**
+     * Verify an ID token issued to our client and map its claims
+     * - Throws 401 for any invalid token
+     * - Pass the nonce sent in the authorization request to bind the token to it
+     */
+    async verifyIdToken(idToken: string, options: { nonce?: string } = {}): Promise<OidcProfile> {
+        const decoded = jwt.decode(idToken, { complete: true });
+        if (!decoded || typeof decoded.payload === 'string') {
+            throw new AppError('OIDC_ID_TOKEN_INVALID');
+        }
+
+        const document = await this.discover();
+        const algorithms = SUPPORTED_ALGORITHMS.filter(
+            (alg) => !document.id_token_signing_alg_values_supported || document.id_token_signing_alg_values_supported.includes(alg)
+        );
+        const key = await this._getSigningKey(decoded.header.kid);
+
+        let payload: JwtPayload;
+        try {
+            payload = jwt.verify(idToken, key, {
+                algorithms,
+                audience: this.config.clientId,
+                issuer: [this.config.issuer, ...(this.config.issuerAliases ?? [])] as [string, ...string[]],
+            }) as JwtPayload;
+        } catch (error) {
+            throw new AppError('OIDC_ID_TOKEN_INVALID');
+        }
+
+        if (options.nonce !== undefined && payload.nonce !== options.nonce) {
+            throw new AppError('OIDC_ID_TOKEN_INVALID');
+        }
+
+        return this.mapClaims(payload);
+    }
+
+    /**
+     * Authorization endpoint URL for the authorization-code flow with PKCE (S256)
+     * Throws 400 if the provider has no redirectUri or authorization endpoint
+     */
+    async buildAuthorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): Promise<string> {
+        const { authorization_endpoint } = await this.discover();
+        if (!authorization_endpoint || !this.config.redirectUri) {
+            throw new AppError('OIDC_CODE_FLOW_UNSUPPORTED');
+        }
+
+        const url = new URL(authorization_endpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', this.config.clientId);
+        url.searchParams.set('redirect_uri', this.config.redirectUri);
+        url.searchParams.set('scope', (this.config.scopes ?? ['openid', 'email', 'profile']).join(' '));
+        url.searchParams.set('state', params.state);
+        url.searchParams.set('nonce', params.nonce);
+        url.searchParams.set('code_challenge', params.codeChallenge);
+        url.searchParams.set('code_challenge_method', 'S256');
+
+        return url.toString();
+    }
+
+    /**
+     * Exchange an authorization code for the ID token
+     * - Throws 401 when the issuer rejects the code (expired, reused, wrong verifier)
+     * - The returned ID token still has to go through verifyIdToken
+     */
+    async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+        const { token_endpoint } = await this.discover();
+        if (!token_endpoint || !this.config.redirectUri) {
+            throw new AppError('OIDC_CODE_FLOW_UNSUPPORTED');
+        }
+
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: this.config.redirectUri,
+            client_id: this.config.clientId,
+            code_verifier: codeVerifier,
+        });
+        if (this.config.clientSecret) {
+            body.set('client_secret', this.config.clientSecret);
+        }
+
+        let response;
+        try {
+            response = await this.fetchJson(token_endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+                body: body.toString(),
+            });
+        } catch (error) {
+            logger.error('Identity provider request failed', { provider: this.name, url: token_endpoint, error });
+            throw new AppError('OIDC_PROVIDER_UNAVAILABLE');
+        }
+
+        if (!response.ok) {
+            throw new AppError('OIDC_CODE_EXCHANGE_FAILED');
+        }
+
+        const tokens = (await response.json()) as { id_token?: unknown };
+        if (typeof tokens.id_token !== 'string') {
+            throw new AppError('OIDC_ID_TOKEN_MISSING');
+        }
+
+        return tokens.id_token;
+    }
+
+    /**
+     * Map verified claims onto a profile
+     * Throws 400 when the issuer did not return a subject or an email
+     */
+    mapClaims(payload: Record<string, unknown>): OidcProfile {
+        const claim = (name: string) => {
+            const value = payload[name];
+            return typeof value === 'string' && value.length > 0 ? value : undefined;
+        };
+
+        const subject = claim(this.claims.subject);
+        const email = claim(this.claims.email);
+
+        if (!subject || !email) {
+            throw new AppError('OIDC_EMAIL_MISSING');
+        }
+
+        const emailVerified =
+            typeof this.claims.emailVerified === 'boolean'
+                ? this.claims.emailVerified
+                : payload[this.claims.emailVerified] === true || payload[this.claims.emailVerified] === 'true';
+
+        return {
+            provider: this.name,
+            subject,
+            email,
+            emailVerified,
+            name: claim(this.claims.name),
+            picture: claim(this.claims.picture),
+        };
+    }
+
+    private async _getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+        const cached = this._pickKey(kid);
+        if (cached) return cached;
+
+        if (Date.now() - this.keysFetchedAt >= JWKS_REFETCH_INTERVAL_MS) {
+            await this._loadKeys();
+        }
+
+        const key = this._pickKey(kid);
+        if (!key) {
+            throw new AppError('OIDC_ID_TOKEN_INVALID');
+        }
+
+        return key;
+    }
+
+    /**
+     * A token without kid is only accepted when the issuer publishes a single key
+     */
+    private _pickKey(kid: string | undefined): crypto.KeyObject | undefined {
+        if (kid) return this.keys.get(kid);
+        return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+    }
+
+    private async _loadKeys(): Promise<void> {
+        const { jwks_uri } = await this.discover();
+        const jwks = (await this._get(jwks_uri)) as { keys?: Jwk[] };
+
+        const keys = new Map<string, crypto.KeyObject>();
+        for (const [index, jwk] of (jwks.keys ?? []).entries()) {
+            if (jwk.use && jwk.use !== 'sig') continue;
+
+            try {
+                keys.set(jwk.kid ?? `#${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+            } catch (error) {
+                logger.warn('Skipping unusable JWK', { provider: this.name, kid: jwk.kid });
+            }
+        }
+
+        this.keys = keys;
+        this.keysFetchedAt = Date.now();
+    }
+
+    private async _get(url: string): Promise<unknown> {
+        let response;
+        try {
+            response = await this.fetchJson(url);
+        } catch (error) {
+            logger.error('Identity provider request failed', { provider: this.name, url, error });
+            throw new AppError('OIDC_PROVIDER_UNAVAILABLE');
+        }
+
+        if (!response.ok) {
+            logger.error('Identity provider request failed', { provider: this.name, url, status: response.status });
+            throw new AppError('OIDC_PROVIDER_UNAVAILABLE');
+        }
+
+        return response.json();
+    }
+}
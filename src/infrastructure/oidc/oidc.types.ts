@@ -0,0 +1,65 @@
+/**
+ * Which ID token claims hold our profile fields
+ * emailVerified may be a claim name or a constant: set it to true only for
+ * issuers that never return unverified emails (e.g. a company IdP), since
+ * a verified email is what allows linking to an existing account
+ */
+export type OidcClaimMapping = {
+    subject: string;
+    email: string;
+    emailVerified: string | boolean;
+    name: string;
+    picture: string;
+};
+
+/**
+ * A registered OpenID Connect issuer
+ */
+export type OidcProviderConfig = {
+    /** Identifier used in routes and stored as user_identities.provider */
+    name: string;
+    /** Issuer URL; discovery is read from `<issuer>/.well-known/openid-configuration` */
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    /** Our callback URL registered with the issuer; required for the authorization-code flow */
+    redirectUri?: string;
+    /** Requested in the authorization-code flow (default: openid email profile) */
+    scopes?: string[];
+    /** Other `iss` values the issuer is known to put in tokens */
+    issuerAliases?: string[];
+    claims?: Partial<OidcClaimMapping>;
+};
+
+/**
+ * The parts of the discovery document we rely on
+ */
+export type OidcDiscoveryDocument = {
+    issuer: string;
+    jwks_uri: string;
+    authorization_endpoint?: string;
+    token_endpoint?: string;
+    userinfo_endpoint?: string;
+    id_token_signing_alg_values_supported?: string[];
+};
+
+/**
+ * Profile read from a verified ID token
+ */
+export type OidcProfile = {
+    provider: string;
+    subject: string;
+    email: string;
+    emailVerified: boolean;
+    name?: string;
+    picture?: string;
+};
+
+/**
+ * fetch-compatible function, injectable so providers can be exercised
+ * against an in-process mock issuer without network access
+ */
+export type OidcFetch = (
+    url: string,
+    init?: { method?: string; headers?: Record<string, string>; body?: string }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
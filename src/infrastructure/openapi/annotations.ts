@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { OperationMeta, RouteDoc } from './openapi.types';
+
+const annotations = new WeakMap<object, OperationMeta>();
+
+/**
+ * Attach OpenAPI metadata to a middleware function
+ * Used by validate(), authenticate and the other guards so the document
+ * is derived from the middleware a route actually runs
+ */
+export const annotate = <T extends object>(handler: T, meta: OperationMeta): T => {
+    annotations.set(handler, { ...annotations.get(handler), ...meta });
+    return handler;
+};
+
+export const readAnnotation = (handler: object): OperationMeta | undefined => annotations.get(handler);
+
+/**
+ * Route documentation marker
+ * A pass-through middleware carrying the summary and success responses of
+ * a route; request schemas, security and error responses come from the
+ * other middleware of the route.
+ *
+ * Usage:
+ * router.get('/:id', apiDoc({ summary: 'Get user by ID', responses: { 200: { description: 'The user', schema: userSchema } } }), ...);
+ */
+export const apiDoc = (doc: RouteDoc) =>
+    annotate((_req: Request, _res: Response, next: NextFunction) => next(), { doc });
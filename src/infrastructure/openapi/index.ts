@@ -0,0 +1,3 @@
+export { OpenApiRegistry } from './registry';
+export { annotate, apiDoc } from './annotations';
+export type { ApiMount, OpenApiInfo, OperationMeta, ResponseDoc, RouteDoc } from './openapi.types';
@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { AnyZodObject, ZodTypeAny } from 'zod';
+
+/**
+ * A documented response of a route
+ * - schema describes `data` of the `{ success, message, data }` envelope,
+ *   meta the optional `meta` next to it (pagination)
+ * - raw: the schema is the whole body (no envelope)
+ * - no schema: the response has no JSON body (e.g. redirects)
+ */
+export type ResponseDoc = {
+    description: string;
+    schema?: ZodTypeAny;
+    meta?: ZodTypeAny;
+    raw?: boolean;
+    headers?: Record<string, string>;
+};
+
+/**
+ * Route documentation declared with apiDoc() in route files
+ */
+export type RouteDoc = {
+    summary: string;
+    description?: string;
+    /** Defaults to the tag of the router the route is mounted with */
+    tags?: string[];
+    /** Success responses; error responses are derived from the route's middleware */
+    responses: Record<number, ResponseDoc>;
+    /** Overrides the security derived from authenticate, e.g. cookie-authenticated routes */
+    security?: Array<Record<string, string[]>>;
+    deprecated?: boolean;
+};
+
+/**
+ * What a middleware contributes to the operation it guards
+ * Attached to middleware functions with annotate() and collected when the
+ * document is built
+ */
+export type OperationMeta = {
+    doc?: RouteDoc;
+    request?: {
+        body?: AnyZodObject;
+        params?: AnyZodObject;
+        query?: AnyZodObject;
+    };
+    authenticated?: boolean;
+    permissions?: string[];
+    ownership?: { param: string; bypassPermission?: string };
+    verifiedEmail?: boolean;
+    rateLimited?: boolean;
+};
+
+/**
+ * A router mounted in app.ts, documented under one tag
+ */
+export type ApiMount = {
+    path: string;
+    router: Router;
+    tag: string;
+    description?: string;
+};
+
+export type OpenApiInfo = {
+    title: string;
+    version: string;
+    description?: string;
+};
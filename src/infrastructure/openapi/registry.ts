@@ -0,0 +1,376 @@
+import { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { readAnnotation } from './annotations';
+import { ERROR_CATALOG } from '../../utils/error-catalog';
+import { ApiMount, OpenApiInfo, OperationMeta, ResponseDoc } from './openapi.types';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * The parts of Express 4 router layers the registry reads
+ */
+type RouterLayer = {
+    handle: object;
+    route?: {
+        path: string | string[];
+        methods: Record<string, boolean>;
+        stack: { handle: object }[];
+    };
+};
+
+const DOCUMENTED_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Convert a Zod schema to the JSON Schema dialect of OpenAPI 3.1
+ * Request schemas are described by what clients send (input), so defaulted
+ * fields are optional and coerced values keep their wire type
+ */
+const toJsonSchema = (schema: ZodTypeAny): JsonSchema => {
+    const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+        target: 'jsonSchema2019-09',
+        $refStrategy: 'none',
+        // zod strips unknown keys rather than rejecting them
+        removeAdditionalStrategy: 'strict',
+        effectStrategy: 'input',
+        pipeStrategy: 'input',
+        dateStrategy: 'format:date-time',
+    });
+
+    return jsonSchema;
+};
+
+const isJsonSchema = (value: unknown): value is JsonSchema =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Properties of an object schema
+ */
+const schemaProperties = (schema: JsonSchema): Record<string, JsonSchema> =>
+    isJsonSchema(schema.properties)
+        ? Object.fromEntries(
+              Object.entries(schema.properties).filter((entry): entry is [string, JsonSchema] =>
+                  isJsonSchema(entry[1])
+              )
+          )
+        : {};
+
+/**
+ * Required property names of an object schema
+ */
+const schemaRequired = (schema: JsonSchema): string[] =>
+    Array.isArray(schema.required)
+        ? schema.required.filter((name): name is string => typeof name === 'string')
+        : [];
+
+const errorResponse = (description: string, headers?: Record<string, string>) => ({
+    description,
+    ...(headers && {
+        headers: Object.fromEntries(
+            Object.entries(headers).map(([name, headerDescription]) => [
+                name,
+                { description: headerDescription, schema: { type: 'string' } },
+            ])
+        ),
+    }),
+    content: {
+        'application/problem+json': { schema: { $ref: '#/components/schemas/ErrorResponse' } },
+    },
+});
+
+/**
+ * Shared components: security schemes and the error shapes produced by errorHandler
+ */
+const components = {
+    securitySchemes: {
+        bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+            description: 'Access token from login, register, refresh or MFA verification',
+        },
+        refreshTokenCookie: {
+            type: 'apiKey',
+            in: 'cookie',
+            name: 'refreshToken',
+            description: 'httpOnly refresh token cookie (REFRESH_TOKEN_TRANSPORT cookie or hybrid)',
+        },
+        oauthStateCookie: {
+            type: 'apiKey',
+            in: 'cookie',
+            name: 'oauthState',
+            description: 'Signed state set by the authorization-code start endpoints',
+        },
+    },
+    schemas: {
+        ErrorResponse: {
+            type: 'object',
+            description: 'RFC 7807 problem details',
+            required: ['type', 'title', 'status', 'detail', 'instance', 'code', 'success', 'requestId'],
+            properties: {
+                type: { type: 'string', format: 'uri', description: 'Problem type, one per code' },
+                title: { type: 'string', description: 'Summary of the problem type' },
+                status: { type: 'integer' },
+                detail: { type: 'string', description: 'Explanation of this occurrence' },
+                instance: { type: 'string', description: 'Path of the request' },
+                code: {
+                    type: 'string',
+                    enum: Object.keys(ERROR_CATALOG),
+                    description: 'Stable error code; branch on this instead of detail',
+                },
+                success: { const: false },
+                message: { type: 'string', deprecated: true, description: 'Alias of detail' },
+                requestId: { type: 'string', description: 'Also sent as the X-Request-Id header' },
+                errors: {
+                    type: 'array',
+                    description: 'Field errors, present on VALIDATION_FAILED',
+                    items: {
+                        type: 'object',
+                        required: ['field', 'message', 'code'],
+                        properties: {
+                            field: { type: 'string', description: 'Dotted path of the invalid field' },
+                            message: { type: 'string' },
+                            code: { type: 'string', description: 'Zod issue code, e.g. too_small' },
+                        },
+                    },
+                },
+                stack: { type: 'string', description: 'Stack trace, development only' },
+            },
+        },
+    },
+    responses: {
+        ValidationError: errorResponse('Validation Error: the body, params or query are invalid'),
+        Unauthorized: errorResponse('Missing, invalid, expired or revoked access token'),
+        Forbidden: errorResponse('Authenticated but not allowed'),
+        NotFound: errorResponse('Resource not found'),
+        TooManyRequests: errorResponse('Rate limit exceeded', {
+            'Retry-After': 'Seconds until the limit resets',
+        }),
+        InternalServerError: errorResponse('Unexpected server error'),
+    },
+};
+
+/**
+ * OpenAPI Registry
+ *
+ * Architecture Note:
+ * - Routers are registered with the path and tag they are mounted under in app.ts
+ * - Operations are derived from the router stacks: validate() provides the
+ *   request schemas, authenticate and the guards provide security and error
+ *   responses, apiDoc() provides the summary and success responses
+ * - Routes without apiDoc() are still listed, so nothing mounted goes missing
+ * - The document is built once, on first request, after all routes are registered
+ */
+export class OpenApiRegistry {
+    private mounts: ApiMount[] = [];
+    private document?: JsonSchema;
+
+    constructor(private readonly info: OpenApiInfo) {}
+
+    register(mount: ApiMount): void {
+        this.mounts.push(mount);
+        this.document = undefined;
+    }
+
+    toDocument(): JsonSchema {
+        this.document ??= this._build();
+        return this.document;
+    }
+
+    private _build(): JsonSchema {
+        const paths: Record<string, Record<string, JsonSchema>> = {};
+
+        for (const mount of this.mounts) {
+            const inherited: OperationMeta[] = [];
+
+            for (const layer of (mount.router as unknown as { stack: RouterLayer[] }).stack) {
+                // Router-level middleware (router.use) applies to the routes declared after it
+                if (!layer.route) {
+                    const meta = readAnnotation(layer.handle);
+                    if (meta) inherited.push(meta);
+                    continue;
+                }
+
+                const meta = this._mergeMeta([
+                    ...inherited,
+                    ...layer.route.stack.map((routeLayer) => readAnnotation(routeLayer.handle)),
+                ]);
+                const routePaths = Array.isArray(layer.route.path) ? layer.route.path : [layer.route.path];
+
+                for (const routePath of routePaths) {
+                    const path = this._toOpenApiPath(mount.path, routePath);
+
+                    for (const method of Object.keys(layer.route.methods)) {
+                        if (!DOCUMENTED_METHODS.includes(method)) continue;
+
+                        paths[path] ??= {};
+                        paths[path][method] = this._operation(mount, path, meta);
+                    }
+                }
+            }
+        }
+
+        return {
+            openapi: '3.1.0',
+            info: this.info,
+            tags: this.mounts.map(({ tag, description }) => ({ name: tag, ...(description && { description }) })),
+            paths,
+            components,
+        };
+    }
+
+    private _mergeMeta(metas: (OperationMeta | undefined)[]): OperationMeta {
+        return metas.reduce<OperationMeta>(
+            (merged, meta) => ({
+                ...merged,
+                ...meta,
+                request: { ...merged.request, ...meta?.request },
+                permissions: [...(merged.permissions ?? []), ...(meta?.permissions ?? [])],
+                authenticated: merged.authenticated || meta?.authenticated,
+                verifiedEmail: merged.verifiedEmail || meta?.verifiedEmail,
+                rateLimited: merged.rateLimited || meta?.rateLimited,
+            }),
+            {}
+        );
+    }
+
+    /**
+     * /api/users + /:id/restore → /api/users/{id}/restore
+     */
+    private _toOpenApiPath(base: string, routePath: string): string {
+        const joined = `${base}${routePath === '/' ? '' : routePath}`.replace(/\/+$/, '') || '/';
+        return joined.replace(/:(\w+)/g, '{$1}');
+    }
+
+    private _operation(mount: ApiMount, path: string, meta: OperationMeta): JsonSchema {
+        const { doc, request = {} } = meta;
+        const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1] as string);
+
+        const parameters = [
+            ...this._parameters('path', request.params, pathParams),
+            ...this._parameters('query', request.query),
+        ];
+
+        const responses: Record<string, JsonSchema> = {};
+        for (const [status, response] of Object.entries(doc?.responses ?? { 200: { description: 'Success' } })) {
+            responses[status] = this._successResponse(response, Number(status) < 400);
+        }
+        if (request.body || request.params || request.query) {
+            responses['400'] = { $ref: '#/components/responses/ValidationError' };
+        }
+        if (meta.authenticated) {
+            responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+        }
+        if (meta.permissions?.length || meta.ownership || meta.verifiedEmail) {
+            responses['403'] = { $ref: '#/components/responses/Forbidden' };
+        }
+        if (pathParams.length) {
+            responses['404'] = { $ref: '#/components/responses/NotFound' };
+        }
+        if (meta.rateLimited) {
+            responses['429'] = { $ref: '#/components/responses/TooManyRequests' };
+        }
+        responses['500'] = { $ref: '#/components/responses/InternalServerError' };
+
+        const security = doc?.security ?? (meta.authenticated ? [{ bearerAuth: [] }] : undefined);
+
+        return {
+            tags: doc?.tags ?? [mount.tag],
+            ...(doc?.summary && { summary: doc.summary }),
+            ...(this._description(meta) && { description: this._description(meta) }),
+            ...(doc?.deprecated && { deprecated: true }),
+            ...(meta.permissions?.length && { 'x-permissions': meta.permissions }),
+            ...(security && { security }),
+            ...(parameters.length && { parameters }),
+            ...(request.body && {
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: toJsonSchema(request.body) } },
+                },
+            }),
+            responses,
+        };
+    }
+
+    /**
+     * Access requirements are appended to the description so they show in the docs UI
+     */
+    private _description(meta: OperationMeta): string | undefined {
+        const lines = meta.doc?.description ? [meta.doc.description] : [];
+
+        if (meta.permissions?.length) {
+            lines.push(`Requires permission ${meta.permissions.map((name) => `\`${name}\``).join(', ')}.`);
+        }
+        if (meta.ownership) {
+            const bypass = meta.ownership.bypassPermission;
+            lines.push(
+                `Only the owner (\`${meta.ownership.param}\`)${bypass ? ` or holders of \`${bypass}\`` : ''} may call this.`
+            );
+        }
+        if (meta.verifiedEmail) {
+            lines.push('Requires a verified email address (see UNVERIFIED_ACCOUNT_POLICY).');
+        }
+
+        return lines.length ? lines.join('\n\n') : undefined;
+    }
+
+    private _parameters(location: 'path' | 'query', schema: ZodTypeAny | undefined, pathParams: string[] = []) {
+        const jsonSchema = schema ? toJsonSchema(schema) : {};
+        const properties = schemaProperties(jsonSchema);
+        const required = new Set(schemaRequired(jsonSchema));
+
+        // Path params without a validate() schema are still part of the path
+        for (const name of pathParams) {
+            properties[name] ??= { type: 'string' };
+            required.add(name);
+        }
+
+        return Object.entries(properties).map(([name, propertySchema]) => {
+            const { description, ...rest } = propertySchema;
+            return {
+                name,
+                in: location,
+                required: location === 'path' || required.has(name),
+                ...(typeof description === 'string' && { description }),
+                schema: rest,
+            };
+        });
+    }
+
+    /**
+     * Documented responses are usually successes; a documented error status
+     * (e.g. 503 from readiness) keeps the envelope with success: false
+     */
+    private _successResponse(response: ResponseDoc, success: boolean): JsonSchema {
+        const headers = response.headers && {
+            headers: Object.fromEntries(
+                Object.entries(response.headers).map(([name, description]) => [
+                    name,
+                    { description, schema: { type: 'string' } },
+                ])
+            ),
+        };
+
+        if (!response.schema) {
+            return { description: response.description, ...headers };
+        }
+
+        const schema = response.raw
+            ? toJsonSchema(response.schema)
+            : {
+                  type: 'object',
+                  required: ['success', 'message', 'data'],
+                  properties: {
+                      success: { const: success },
+                      message: { type: 'string' },
+                      data: toJsonSchema(response.schema),
+                      ...(response.meta && { meta: toJsonSchema(response.meta) }),
+                  },
+              };
+
+        return {
+            description: response.description,
+            ...headers,
+            content: { 'application/json': { schema } },
+        };
+    }
+}
@@ -0,0 +1,15 @@
+import { config } from '../../config/env';
+import { RateLimitStore } from './rate-limit.types';
+import { MemoryRateLimitStore } from './memory.store';
+import { PostgresRateLimitStore } from './postgres.store';
+
+export type { RateLimitStore, RateLimitCounts } from './rate-limit.types';
+export { MemoryRateLimitStore } from './memory.store';
+export { PostgresRateLimitStore } from './postgres.store';
+
+/**
+ * Default rate limit store selected by RATE_LIMIT_STORE
+ * Used by rateLimit() unless a route passes its own store
+ */
+export const rateLimitStore: RateLimitStore =
+    config.RATE_LIMIT_STORE === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
@@ -0,0 +1,49 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryRateLimitStore } from './memory.store';
+
+const WINDOW_MS = 1000;
+
+describe('MemoryRateLimitStore', () => {
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    it('counts hits per key within a window', async () => {
+        const store = new MemoryRateLimitStore();
+
+        assert.deepEqual(await store.hit('a', 0, WINDOW_MS), { current: 1, previous: 0 });
+        assert.deepEqual(await store.hit('a', 0, WINDOW_MS), { current: 2, previous: 0 });
+        assert.deepEqual(await store.hit('b', 0, WINDOW_MS), { current: 1, previous: 0 });
+    });
+
+    it('reports the previous window alongside a new one', async () => {
+        const store = new MemoryRateLimitStore();
+
+        for (let i = 0; i < 3; i++) await store.hit('a', 0, WINDOW_MS);
+
+        assert.deepEqual(await store.hit('a', WINDOW_MS, WINDOW_MS), { current: 1, previous: 3 });
+    });
+
+    it('does not report windows older than the previous one', async () => {
+        const store = new MemoryRateLimitStore();
+
+        await store.hit('a', 0, WINDOW_MS);
+
+        assert.deepEqual(await store.hit('a', 2 * WINDOW_MS, WINDOW_MS), { current: 1, previous: 0 });
+    });
+
+    it('sweeps a window once it can no longer serve as the previous one', async () => {
+        mock.timers.enable({ apis: ['setInterval', 'Date'], now: 0 });
+        const store = new MemoryRateLimitStore(WINDOW_MS);
+
+        await store.hit('a', 0, WINDOW_MS);
+
+        // Still needed as the previous window of [1000, 2000)
+        mock.timers.tick(WINDOW_MS);
+        assert.deepEqual(await store.hit('a', 0, WINDOW_MS), { current: 2, previous: 0 });
+
+        mock.timers.tick(WINDOW_MS);
+        assert.deepEqual(await store.hit('a', 0, WINDOW_MS), { current: 1, previous: 0 });
+    });
+});
@@ -0,0 +1,40 @@
+import { RateLimitCounts, RateLimitStore } from './rate-limit.types';
+
+/**
+ * In-process rate limit store
+ * Limits are per instance; use the PostgreSQL store when running several
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+
+    constructor(cleanupIntervalMs = 60 * 1000) {
+        // Sweep expired windows; unref so the timer never keeps the process alive
+        setInterval(() => this.sweep(), cleanupIntervalMs).unref();
+    }
+
+    async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts> {
+        const currentKey = `${key}:${windowStart}`;
+        const counter = this.counters.get(currentKey) ?? {
+            count: 0,
+            // Kept for one extra window so it can serve as the previous window
+            expiresAt: windowStart + 2 * windowMs,
+        };
+
+        counter.count += 1;
+        this.counters.set(currentKey, counter);
+
+        return {
+            current: counter.count,
+            previous: this.counters.get(`${key}:${windowStart - windowMs}`)?.count ?? 0,
+        };
+    }
+
+    private sweep(): void {
+        const now = Date.now();
+        for (const [key, counter] of this.counters) {
+            if (counter.expiresAt <= now) {
+                this.counters.delete(key);
+            }
+        }
+    }
+}
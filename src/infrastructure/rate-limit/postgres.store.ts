@@ -0,0 +1,45 @@
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { db } from '../database';
+import { rateLimitHits } from './rate-limit.schema';
+import { RateLimitCounts, RateLimitStore } from './rate-limit.types';
+
+/**
+ * PostgreSQL-backed rate limit store
+ * Counters live in the application database so limits hold across instances
+ * without extra infrastructure
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+    /**
+     * @param cleanupProbability - Share of hits that also purge expired rows
+     */
+    constructor(private readonly cleanupProbability = 0.01) {}
+
+    async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts> {
+        const [current] = await db
+            .insert(rateLimitHits)
+            .values({
+                key,
+                windowStart,
+                count: 1,
+                // Kept for one extra window so it can serve as the previous window
+                expiresAt: new Date(windowStart + 2 * windowMs),
+            })
+            .onConflictDoUpdate({
+                target: [rateLimitHits.key, rateLimitHits.windowStart],
+                set: { count: sql`${rateLimitHits.count} + 1` },
+            })
+            .returning({ count: rateLimitHits.count });
+
+        const [previous] = await db
+            .select({ count: rateLimitHits.count })
+            .from(rateLimitHits)
+            .where(and(eq(rateLimitHits.key, key), eq(rateLimitHits.windowStart, windowStart - windowMs)))
+            .limit(1);
+
+        if (Math.random() < this.cleanupProbability) {
+            await db.delete(rateLimitHits).where(lt(rateLimitHits.expiresAt, new Date()));
+        }
+
+        return { current: current?.count ?? 1, previous: previous?.count ?? 0 };
+    }
+}
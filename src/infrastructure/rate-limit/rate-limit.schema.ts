@@ -0,0 +1,15 @@
+import { pgTable, varchar, integer, bigint, timestamp, primaryKey } from 'drizzle-orm/pg-core';
+
+/**
+ * Shared rate limit counters, one row per key and fixed window
+ */
+export const rateLimitHits = pgTable(
+    'rate_limit_hits',
+    {
+        key: varchar('key', { length: 255 }).notNull(),
+        windowStart: bigint('window_start', { mode: 'number' }).notNull(),
+        count: integer('count').default(0).notNull(),
+        expiresAt: timestamp('expires_at').notNull(),
+    },
+    (table) => [primaryKey({ columns: [table.key, table.windowStart] })]
+);
@@ -0,0 +1,20 @@
+/**
+ * Hit counts of a key in the current and the previous fixed window
+ * The previous window lets the middleware approximate a sliding window
+ */
+export type RateLimitCounts = {
+    current: number;
+    previous: number;
+};
+
+/**
+ * Rate limit storage backend
+ * Windows are aligned to multiples of windowMs, so every instance sharing a
+ * store agrees on window boundaries
+ */
+export interface RateLimitStore {
+    /**
+     * Record a hit for the key in the window starting at windowStart
+     */
+    hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts>;
+}
@@ -0,0 +1,23 @@
+import { closeConnection } from '../infrastructure/database';
+import { logger } from '../middleware/logger.middleware';
+import { runUserPurge } from './user-purge.job';
+
+/**
+ * One-off user purge
+ * Run with `npm run users:purge`, e.g. from cron when the in-process job
+ * is disabled with USER_PURGE_INTERVAL_MINUTES=0
+ */
+const purge = async () => {
+    try {
+        const purged = await runUserPurge();
+        logger.info(`User purge finished, ${purged} user(s) purged`);
+
+        await closeConnection();
+        process.exit(0);
+    } catch (error) {
+        logger.error('User purge failed:', error);
+        process.exit(1);
+    }
+};
+
+purge();
@@ -0,0 +1,42 @@
+import { config } from '../config/env';
+import { logger } from '../middleware/logger.middleware';
+import { userService } from '../modules/user/user.service';
+
+/**
+ * Purge users whose soft-delete retention window has passed
+ * Errors are logged and retried on the next tick
+ */
+export const runUserPurge = async (): Promise<number> => {
+    const purged = await userService.purgeDeleted();
+
+    if (purged > 0) {
+        logger.info(`Purged ${purged} deleted user(s) (mode: ${config.USER_PURGE_MODE})`);
+    }
+
+    return purged;
+};
+
+/**
+ * Run the purge every USER_PURGE_INTERVAL_MINUTES in this process
+ * - Disabled when the interval is 0 (e.g. when purging from cron with `npm run users:purge`)
+ * - The timer is unref'd so it never keeps the process alive on its own
+ *
+ * @returns function that stops the job
+ */
+export const startUserPurgeJob = (): (() => void) => {
+    const intervalMinutes = config.USER_PURGE_INTERVAL_MINUTES;
+
+    if (intervalMinutes === 0) {
+        return () => {};
+    }
+
+    const tick = () => {
+        runUserPurge().catch((error) => logger.error('User purge failed:', error));
+    };
+
+    const timer = setInterval(tick, intervalMinutes * 60 * 1000);
+    timer.unref();
+    tick();
+
+    return () => clearInterval(timer);
+};
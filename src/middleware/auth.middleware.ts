@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { errors } from 'jose';
+import { AppError } from './error.middleware';
+import { verifyAccessToken } from '../utils/token';
+import { tokenRevocationService } from '../modules/auth/token-revocation.service';
+import { PermissionName } from '../modules/role/role.constants';
+import { config } from '../config/env';
+import { annotate } from '../infrastructure/openapi';
+import { setRequestUser } from '../utils/request-context';
+import { isSupportedLocale } from '../infrastructure/i18n';
+import { applyLocale } from './locale.middleware';
+
+/**
+ * Authentication middleware
+ * Verifies the Bearer access token, rejects revoked tokens (token version,
+ * jti/session denylist) and attaches the principal to req.user
+ * The user's preferred locale, if any, replaces the negotiated one
+ *
+ * Usage:
+ * router.get('/me', authenticate, userController.me);
+ */
+export const authenticate = annotate(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const header = req.get('Authorization');
+
+    if (!header) {
+        return next(new AppError('AUTH_REQUIRED'));
+    }
+
+    const [scheme, token] = header.split(' ');
+    if (scheme !== 'Bearer' || !token) {
+        return next(new AppError('AUTH_INVALID_HEADER'));
+    }
+
+    let payload;
+    try {
+        payload = await verifyAccessToken(token);
+    } catch (error) {
+        if (error instanceof errors.JWTExpired) {
+            return next(new AppError('AUTH_ACCESS_TOKEN_EXPIRED'));
+        }
+        return next(new AppError('AUTH_ACCESS_TOKEN_INVALID'));
+    }
+
+    try {
+        await tokenRevocationService.assertActive(payload);
+        req.user = {
+            id: payload.id,
+            email: payload.email,
+            roles: payload.roles ?? [],
+            permissions: payload.permissions ?? [],
+            emailVerified: payload.emailVerified ?? false,
+            sessionId: payload.sid,
+            tokenId: payload.jti,
+            ...(isSupportedLocale(payload.locale) && { locale: payload.locale }),
+        };
+        setRequestUser(payload.id);
+        if (req.user.locale) applyLocale(res, req.user.locale);
+    } catch (error) {
+        return next(error);
+    }
+
+    next();
+}, { authenticated: true });
+
+/**
+ * Permission guard factory
+ * Allows the request only when the access token grants every listed permission.
+ * Must run after authenticate; composes with validate() in route definitions.
+ *
+ * Usage:
+ * router.delete('/:id', authenticate, requirePermission('users:delete'), validate({ params }), ...);
+ *
+ * @param required - Permissions the caller must hold
+ */
+export const requirePermission = (...required: PermissionName[]) => {
+    return annotate((req: Request, _res: Response, next: NextFunction): void => {
+        if (!req.user) {
+            return next(new AppError('AUTH_REQUIRED'));
+        }
+
+        const granted = req.user.permissions;
+        if (!required.every((permission) => granted.includes(permission))) {
+            return next(new AppError('AUTH_INSUFFICIENT_PERMISSIONS'));
+        }
+
+        next();
+    }, { permissions: required });
+};
+
+/**
+ * Ownership guard factory
+ * Allows the request only when the authenticated user owns the resource
+ * identified by the given route param, or holds the bypass permission.
+ * Must run after authenticate.
+ *
+ * Usage:
+ * router.put('/:id', authenticate, requireOwnership('id', 'users:update'), userController.update);
+ *
+ * @param param - Route param holding the owner's user id
+ * @param bypassPermission - Permission that grants access to any owner's resource
+ */
+export const requireOwnership = (param = 'id', bypassPermission?: PermissionName) => {
+    return annotate((req: Request, _res: Response, next: NextFunction): void => {
+        if (!req.user) {
+            return next(new AppError('AUTH_REQUIRED'));
+        }
+
+        if (bypassPermission && req.user.permissions.includes(bypassPermission)) {
+            return next();
+        }
+
+        if (req.params[param] !== req.user.id) {
+            return next(new AppError('AUTH_NOT_RESOURCE_OWNER'));
+        }
+
+        next();
+    }, { ownership: { param, bypassPermission } });
+};
+
+/**
+ * Verified-email guard
+ * Refuses unverified accounts when UNVERIFIED_ACCOUNT_POLICY is restrict.
+ * Relies on the emailVerified claim, so clients refresh their access token
+ * after verifying. Must run after authenticate.
+ */
+export const requireVerifiedEmail = annotate((req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+        return next(new AppError('AUTH_REQUIRED'));
+    }
+
+    if (config.UNVERIFIED_ACCOUNT_POLICY !== 'allow' && !req.user.emailVerified) {
+        return next(new AppError('AUTH_EMAIL_NOT_VERIFIED'));
+    }
+
+    next();
+}, { verifiedEmail: true });
@@ -0,0 +1,143 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError, errorHandler, notFoundHandler } from './error.middleware';
+import { logger } from './logger.middleware';
+import { runWithRequestContext } from '../utils/request-context';
+
+type Sent = { status?: number; type?: string; body?: Record<string, unknown> };
+
+const request = (originalUrl = '/api/users/42?expand=roles') =>
+    ({ originalUrl, method: 'GET', id: 'req-1' }) as unknown as Request;
+
+/**
+ * Run errorHandler and capture the response it sends
+ */
+const handle = (err: Error, req = request()): Sent => {
+    const sent: Sent = {};
+    const res = {
+        status(code: number) {
+            sent.status = code;
+            return this;
+        },
+        type(type: string) {
+            sent.type = type;
+            return this;
+        },
+        json(body: Record<string, unknown>) {
+            sent.body = body;
+            return this;
+        },
+    } as unknown as Response;
+
+    errorHandler(err, req, res, () => undefined);
+    return sent;
+};
+
+const databaseError = (fields: { code: string; constraint?: string; column?: string }) =>
+    Object.assign(new Error('duplicate key value violates unique constraint'), fields);
+
+describe('errorHandler', () => {
+    before(() => {
+        // Every handled error is logged; keep the test output readable
+        mock.method(logger, 'error', () => logger);
+    });
+
+    it('sends an AppError as problem details', () => {
+        const sent = handle(new AppError('ROLE_NOT_FOUND', { role: 'editor' }));
+
+        assert.equal(sent.status, 404);
+        assert.equal(sent.type, 'application/problem+json');
+        assert.deepEqual(sent.body, {
+            type: 'urn:problem-type:role-not-found',
+            title: 'Role not found',
+            status: 404,
+            detail: 'Role "editor" not found',
+            instance: '/api/users/42',
+            code: 'ROLE_NOT_FOUND',
+            success: false,
+            message: 'Role "editor" not found',
+            requestId: 'req-1',
+        });
+    });
+
+    it('lists the fields of a ZodError', () => {
+        const result = z.object({ email: z.string().email() }).safeParse({ email: 'nope' });
+        assert.ok(!result.success);
+
+        const sent = handle(result.error);
+
+        assert.equal(sent.status, 400);
+        assert.equal(sent.body?.code, 'VALIDATION_FAILED');
+        assert.deepEqual(sent.body?.errors, [
+            { field: 'email', message: 'Invalid email', code: 'invalid_string' },
+        ]);
+    });
+
+    it('translates message keys passed by schemas', () => {
+        const result = z.string().regex(/^\d{6}$/, 'validation.mfa_code').safeParse('12');
+        assert.ok(!result.success);
+
+        const errors = handle(result.error).body?.errors as { message: string }[];
+
+        assert.equal(errors[0]?.message, 'Code must be 6 digits');
+    });
+
+    it('maps body-parser errors', () => {
+        const sent = handle(Object.assign(new SyntaxError('Unexpected token'), { type: 'entity.parse.failed' }));
+
+        assert.equal(sent.status, 400);
+        assert.equal(sent.body?.code, 'REQUEST_MALFORMED_JSON');
+    });
+
+    it('maps known constraints before the PostgreSQL error class', () => {
+        const known = handle(databaseError({ code: '23505', constraint: 'users_email_unique' }));
+        const unknown = handle(databaseError({ code: '23505', constraint: 'something_unique' }));
+
+        assert.equal(known.status, 409);
+        assert.equal(known.body?.code, 'USER_EMAIL_TAKEN');
+        assert.equal(unknown.body?.code, 'RESOURCE_CONFLICT');
+    });
+
+    it('names the column of a not-null violation', () => {
+        const sent = handle(databaseError({ code: '23502', column: 'email' }));
+
+        assert.equal(sent.body?.code, 'REQUIRED_FIELD_MISSING');
+        assert.equal(sent.body?.detail, 'Field email is required');
+    });
+
+    it('hides the message of unexpected errors', () => {
+        const sent = handle(new Error('connect ECONNREFUSED 10.0.0.5:5432'));
+
+        assert.equal(sent.status, 500);
+        assert.equal(sent.body?.code, 'INTERNAL_ERROR');
+        assert.equal(sent.body?.detail, 'Internal Server Error');
+        assert.equal(sent.body?.stack, undefined);
+    });
+
+    it('answers in the language of the request', () => {
+        const sent = runWithRequestContext({ requestId: 'req-1', locale: 'id' }, () =>
+            handle(new AppError('ROLE_NOT_FOUND', { role: 'editor' }))
+        );
+
+        assert.equal(sent.body?.title, 'Peran tidak ditemukan');
+        assert.equal(sent.body?.detail, 'Peran "editor" tidak ditemukan');
+        assert.equal(sent.body?.code, 'ROLE_NOT_FOUND');
+    });
+});
+
+describe('notFoundHandler', () => {
+    it('passes ROUTE_NOT_FOUND with the path to the error handler', () => {
+        let error: unknown;
+        const next: NextFunction = (err?: unknown) => {
+            error = err;
+        };
+
+        notFoundHandler(request('/api/nope?x=1'), {} as Response, next);
+
+        assert.ok(error instanceof AppError);
+        assert.equal(error.code, 'ROUTE_NOT_FOUND');
+        assert.equal(error.message, 'Route /api/nope not found');
+    });
+});
@@ -1,18 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
 import { logger } from './logger.middleware';
+import {
+    CONSTRAINT_ERROR_CODES,
+    ERROR_CATALOG,
+    ErrorCode,
+    ErrorParams,
+    formatErrorDetail,
+    problemType,
+} from '../utils/error-catalog';
+import { isMessageKey, t, translateError } from '../infrastructure/i18n';
 
 /**
  * Custom application error class
- * Use this for throwing errors with specific HTTP status codes
+ * Throw it with a code from the error catalog; the status and message come
+ * from the catalog, params fill the placeholders of the message
+ *
+ * Usage:
+ * throw new AppError('USER_NOT_FOUND');
+ * throw new AppError('ROLE_NOT_FOUND', { role: name });
  */
 export class AppError extends Error {
+    public readonly statusCode: number;
+
     constructor(
-        public statusCode: number,
-        public message: string,
+        public readonly code: ErrorCode,
+        public readonly params: ErrorParams = {},
         public isOperational = true
     ) {
-        super(message);
+        super(formatErrorDetail(code, params));
+        this.statusCode = ERROR_CATALOG[code].status;
         Object.setPrototypeOf(this, AppError.prototype);
         Error.captureStackTrace(this, this.constructor);
     }
@@ -38,18 +55,66 @@ export const asyncHandler = (
 
 /**
  * Format Zod validation errors into a readable format
+ * - code is the Zod issue code (too_small, invalid_string, ...)
+ * - Messages were translated by validate(); schemas may also pass a
+ *   message key (e.g. 'validation.mfa_code'), translated here
  */
 const formatZodError = (error: ZodError) => {
     return error.errors.map((err) => ({
         field: err.path.join('.'),
-        message: err.message,
+        message: isMessageKey(err.message) ? t(err.message) : err.message,
+        code: err.code,
     }));
 };
 
+/**
+ * Map a PostgreSQL error to a catalog code
+ * Known constraint names get their own code, other errors their class's
+ */
+const databaseErrorCode = (dbError: { code: string; constraint?: string }): ErrorCode => {
+    const byConstraint = dbError.constraint && CONSTRAINT_ERROR_CODES[dbError.constraint];
+    if (byConstraint) return byConstraint;
+
+    switch (dbError.code) {
+        case '23505': // Unique violation
+            return 'RESOURCE_CONFLICT';
+        case '23503': // Foreign key violation
+            return 'INVALID_REFERENCE';
+        case '23502': // Not null violation
+            return 'REQUIRED_FIELD_MISSING';
+        case '22P02': // Invalid text representation (e.g. a malformed uuid)
+            return 'INVALID_VALUE';
+        case '40001': // Serialization failure
+        case '40P01': // Deadlock detected
+            return 'CONCURRENT_UPDATE';
+        default:
+            return 'DATABASE_ERROR';
+    }
+};
+
+/**
+ * Map body-parser errors (malformed JSON, oversized bodies) to catalog codes
+ */
+const bodyParserErrorCode = (type: string): ErrorCode | undefined => {
+    switch (type) {
+        case 'entity.parse.failed':
+            return 'REQUEST_MALFORMED_JSON';
+        case 'entity.too.large':
+            return 'REQUEST_BODY_TOO_LARGE';
+        default:
+            return undefined;
+    }
+};
+
 /**
  * Global error handling middleware
  * This should be the last middleware in the Express app
  * All errors from controllers and middleware will flow through here
+ *
+ * Errors are sent as RFC 7807 problem details (application/problem+json):
+ * type and title identify the catalog code, detail describes this
+ * occurrence, instance is the request path. title and detail are in the
+ * language of the request (see the locale middleware)
  */
 export const errorHandler = (
     err: Error | AppError | ZodError,
@@ -57,65 +122,67 @@ export const errorHandler = (
     res: Response,
     _next: NextFunction
 ): void => {
-    // Default error values
-    let statusCode = 500;
-    let message = 'Internal Server Error';
-    let errors: any = undefined;
+    let code: ErrorCode = 'INTERNAL_ERROR';
+    let params: ErrorParams = {};
+    let errors: ReturnType<typeof formatZodError> | undefined = undefined;
 
     // Handle Zod validation errors
     if (err instanceof ZodError) {
-        statusCode = 400;
-        message = 'Validation Error';
+        code = 'VALIDATION_FAILED';
         errors = formatZodError(err);
     }
     // Handle custom application errors
     else if (err instanceof AppError) {
-        statusCode = err.statusCode;
-        message = err.message;
+        code = err.code;
+        params = err.params;
     }
-    // Handle database errors (PostgreSQL)
-    else if ('code' in err) {
-        const dbError = err as any;
-        switch (dbError.code) {
-            case '23505': // Unique violation
-                statusCode = 409;
-                message = 'Resource already exists';
-                break;
-            case '23503': // Foreign key violation
-                statusCode = 400;
-                message = 'Invalid reference';
-                break;
-            case '23502': // Not null violation
-                statusCode = 400;
-                message = 'Required field missing';
-                break;
-            default:
-                statusCode = 500;
-                message = 'Database error';
-        }
+    // Handle body-parser errors
+    else if ('type' in err && typeof err.type === 'string' && bodyParserErrorCode(err.type)) {
+        code = bodyParserErrorCode(err.type)!;
     }
-    // Handle generic errors
-    else if (err instanceof Error) {
-        message = err.message;
+    // Handle database errors (PostgreSQL)
+    else if ('code' in err && typeof err.code === 'string') {
+        const dbError = err as Error & { code: string; constraint?: string; column?: string };
+        code = databaseErrorCode(dbError);
+        params = dbError.column ? { column: dbError.column } : {};
     }
 
+    const { status } = ERROR_CATALOG[code];
+    // Logged in English, sent in the language of the request
+    const detail = formatErrorDetail(code, params);
+    const translated = translateError(code, params);
+
     // Log the error
     logger.error('Error occurred', {
-        statusCode,
-        message,
+        statusCode: status,
+        code,
+        // The original message is kept for unexpected errors; Zod's is the raw issue list
+        message: err instanceof ZodError ? detail : err.message,
         stack: err.stack,
         url: req.originalUrl,
         method: req.method,
+        requestId: req.id,
     });
 
     // Send error response
-    res.status(statusCode).json({
-        success: false,
-        message,
-        ...(errors && { errors }),
-        // Include stack trace only in development
-        ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
-    });
+    res.status(status)
+        .type('application/problem+json')
+        .json({
+            type: problemType(code),
+            title: translated.title,
+            status,
+            detail: translated.detail,
+            instance: req.originalUrl.split('?')[0],
+            code,
+            success: false,
+            // Deprecated alias of detail, kept for clients of the previous error shape
+            message: translated.detail,
+            // Lets clients quote the id when reporting the failure
+            requestId: req.id,
+            ...(errors && { errors }),
+            // Include stack trace only in development
+            ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
+        });
 };
 
 /**
@@ -123,6 +190,6 @@ export const errorHandler = (
  * Use this before the error handler to catch undefined routes
  */
 export const notFoundHandler = (req: Request, _res: Response, next: NextFunction): void => {
-    const error = new AppError(404, `Route ${req.originalUrl} not found`);
+    const error = new AppError('ROUTE_NOT_FOUND', { path: req.originalUrl.split('?')[0] as string });
     next(error);
 };
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { lifecycle } from '../utils/lifecycle';
+
+/**
+ * In-flight request tracking
+ * Counts requests until their response is finished or the client goes away.
+ * While draining, responses carry `Connection: close` so keep-alive clients
+ * reconnect to another instance instead of reusing this socket.
+ */
+export const trackInFlight = (_req: Request, res: Response, next: NextFunction): void => {
+    lifecycle.requestStarted();
+
+    let finished = false;
+    const done = () => {
+        if (finished) return;
+        finished = true;
+        lifecycle.requestFinished();
+    };
+    res.on('finish', done);
+    res.on('close', done);
+
+    if (lifecycle.draining) {
+        res.setHeader('Connection', 'close');
+    }
+
+    next();
+};
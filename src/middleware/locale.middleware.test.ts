@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { Request, Response } from 'express';
+import { applyLocale, negotiateLocale } from './locale.middleware';
+import { getRequestContext, runWithRequestContext } from '../utils/request-context';
+import { t } from '../infrastructure/i18n';
+
+type Negotiated = { locale?: string; headers: Record<string, unknown>; vary: string[] };
+
+const response = (result: Negotiated) =>
+    ({
+        setHeader: (name: string, value: unknown) => {
+            result.headers[name] = value;
+        },
+        vary: (field: string) => {
+            result.vary.push(field);
+        },
+    }) as unknown as Response;
+
+/**
+ * Run negotiateLocale for a request with the given Accept-Language header
+ * The request inherits from Express's request so acceptsLanguages works
+ */
+const negotiate = (acceptLanguage?: string): Negotiated => {
+    const req = Object.create(express.request) as Request;
+    req.headers = acceptLanguage === undefined ? {} : { 'accept-language': acceptLanguage };
+
+    const result: Negotiated = { headers: {}, vary: [] };
+
+    runWithRequestContext({ requestId: 'test' }, () => {
+        negotiateLocale(req, response(result), () => {
+            result.locale = getRequestContext()?.locale;
+        });
+    });
+
+    return result;
+};
+
+describe('negotiateLocale', () => {
+    it('falls back to the default locale without Accept-Language', () => {
+        const result = negotiate();
+
+        assert.equal(result.locale, 'en');
+        assert.equal(result.headers['Content-Language'], 'en');
+        assert.deepEqual(result.vary, ['Accept-Language']);
+    });
+
+    it('picks a supported language', () => {
+        assert.equal(negotiate('id').locale, 'id');
+        assert.equal(negotiate('en').locale, 'en');
+    });
+
+    it('matches region tags to their language', () => {
+        assert.equal(negotiate('id-ID').locale, 'id');
+        assert.equal(negotiate('en-GB,en;q=0.9').locale, 'en');
+    });
+
+    it('honours q-values', () => {
+        assert.equal(negotiate('en;q=0.5, id;q=0.9').locale, 'id');
+        assert.equal(negotiate('id;q=0.1, en').locale, 'en');
+    });
+
+    it('uses the default for wildcards and unsupported languages', () => {
+        assert.equal(negotiate('*').locale, 'en');
+        assert.equal(negotiate('fr, de;q=0.5').locale, 'en');
+        assert.equal(negotiate('fr, id;q=0.5').locale, 'id');
+    });
+});
+
+describe('applyLocale', () => {
+    it('switches the rest of the request to the given locale', () => {
+        const result: Negotiated = { headers: {}, vary: [] };
+
+        const message = runWithRequestContext({ requestId: 'test', locale: 'en' }, () => {
+            applyLocale(response(result), 'id');
+            return t('validation.required');
+        });
+
+        assert.equal(message, 'Wajib diisi');
+        assert.equal(result.headers['Content-Language'], 'id');
+    });
+});
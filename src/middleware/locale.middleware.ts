@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { Locale, SUPPORTED_LOCALES } from '../infrastructure/i18n';
+import { setRequestLocale } from '../utils/request-context';
+
+// The default locale first: it is what acceptsLanguages picks for `*`
+const NEGOTIATION_ORDER = [
+    config.DEFAULT_LOCALE,
+    ...SUPPORTED_LOCALES.filter((locale) => locale !== config.DEFAULT_LOCALE),
+];
+
+/**
+ * Answer the rest of the request in the given locale
+ * Used by authenticate when the user has a preferred locale
+ */
+export const applyLocale = (res: Response, locale: Locale): void => {
+    setRequestLocale(locale);
+    res.setHeader('Content-Language', locale);
+};
+
+/**
+ * Locale middleware
+ * Picks the response language from Accept-Language (q-values and region
+ * tags like id-ID are honoured), falling back to DEFAULT_LOCALE.
+ * authenticate later switches to the user's preferred locale, if set.
+ * Must run after requestContext.
+ */
+export const negotiateLocale = (req: Request, res: Response, next: NextFunction): void => {
+    const accepted = req.get('Accept-Language') ? req.acceptsLanguages(...NEGOTIATION_ORDER) : false;
+
+    res.vary('Accept-Language');
+    applyLocale(res, (accepted || config.DEFAULT_LOCALE) as Locale);
+
+    next();
+};
@@ -1,14 +1,32 @@
 import winston from 'winston';
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config/env';
+import { getRequestContext } from '../utils/request-context';
+
+/**
+ * Adds the request id and user id of the current request context
+ * to every log line written while handling a request
+ */
+const withRequestContext = winston.format((info) => {
+    const context = getRequestContext();
+
+    if (context) {
+        info.requestId ??= context.requestId;
+        if (context.userId) info.userId ??= context.userId;
+    }
+
+    return info;
+});
 
 /**
  * Winston logger configuration
  * Logs to both console and file with different formats for each
+ * Lines logged during a request carry its requestId and userId
  */
 export const logger = winston.createLogger({
     level: config.LOG_LEVEL,
     format: winston.format.combine(
+        withRequestContext(),
         winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
         winston.format.errors({ stack: true }),
         winston.format.splat(),
@@ -54,6 +72,8 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction):
             status: res.statusCode,
             duration: `${duration}ms`,
             ip: req.ip,
+            requestId: req.id,
+            userId: req.user?.id,
         });
     });
 
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './error.middleware';
+import { httpRequestDuration, httpRequestsTotal, metricsRegistry } from '../infrastructure/metrics';
+import { config } from '../config/env';
+import { hashToken } from '../utils/token';
+
+/**
+ * Route template of a handled request, e.g. /api/users/:id
+ * - req.baseUrl is reset once a failing request leaves its router, so the
+ *   mount path is found from the list of mounted routers instead
+ * - Requests that fail before reaching a route (router-level authenticate,
+ *   unknown paths) are grouped per router (/api/roles/*) or as unmatched
+ */
+const routeTemplate = (req: Request, mountPaths: string[]): string => {
+    const path = req.originalUrl.split('?')[0] ?? '';
+    const base = mountPaths.find((mountPath) => path === mountPath || path.startsWith(`${mountPath}/`));
+
+    if (!req.route) {
+        return base ? `${base}/*` : 'unmatched';
+    }
+
+    const routePath = req.route.path === '/' ? '' : String(req.route.path);
+    return `${base ?? ''}${routePath}` || '/';
+};
+
+/**
+ * HTTP metrics middleware factory
+ * Counts requests and observes their latency by method, route template and status.
+ *
+ * Usage:
+ * app.use(httpMetrics(['/api/auth', '/api/users']));
+ *
+ * @param mountPaths - Paths routers are mounted at in app.ts
+ */
+export const httpMetrics = (mountPaths: string[]) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const stopTimer = httpRequestDuration.startTimer();
+
+        res.on('finish', () => {
+            const labels = {
+                method: req.method,
+                route: routeTemplate(req, mountPaths),
+                status: String(res.statusCode),
+            };
+
+            httpRequestsTotal.inc(labels);
+            stopTimer(labels);
+        });
+
+        next();
+    };
+};
+
+/**
+ * Prometheus scrape endpoint
+ * When METRICS_TOKEN is set, scrapers must send it as a Bearer token
+ */
+export const serveMetrics = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (config.METRICS_TOKEN) {
+        const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+
+        // Compared as hashes so the comparison takes the same time for any input
+        if (scheme !== 'Bearer' || !token || hashToken(token) !== hashToken(config.METRICS_TOKEN)) {
+            return next(new AppError('AUTH_METRICS_TOKEN_INVALID'));
+        }
+    }
+
+    try {
+        res.setHeader('Content-Type', metricsRegistry.contentType);
+        res.status(200).send(await metricsRegistry.metrics());
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextFunction, Request, Response } from 'express';
+import { rateLimit, RateLimitOptions } from './rate-limit.middleware';
+import { AppError } from './error.middleware';
+import { logger } from './logger.middleware';
+import { MemoryRateLimitStore, RateLimitStore } from '../infrastructure/rate-limit';
+
+const WINDOW_MS = 60 * 1000;
+
+type Outcome = { headers: Record<string, unknown>; error?: unknown };
+
+/**
+ * Run the middleware for one request at the current (mocked) time
+ */
+const send = async (options: RateLimitOptions, ip = '203.0.113.1'): Promise<Outcome> => {
+    const headers: Record<string, unknown> = {};
+    const req = { ip, get: () => undefined } as unknown as Request;
+    const res = {
+        setHeader: (name: string, value: unknown) => {
+            headers[name] = value;
+        },
+    } as unknown as Response;
+
+    let error: unknown;
+    const next: NextFunction = (err?: unknown) => {
+        error = err;
+    };
+
+    await rateLimit(options)(req, res, next);
+    return { headers, error };
+};
+
+const sendTimes = async (options: RateLimitOptions, times: number) => {
+    let outcome: Outcome | undefined;
+    for (let i = 0; i < times; i++) outcome = await send(options);
+    return outcome!;
+};
+
+describe('rateLimit', () => {
+    let store: RateLimitStore;
+
+    beforeEach(() => {
+        store = new MemoryRateLimitStore();
+        mock.timers.enable({ apis: ['Date'], now: 0 });
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    it('allows max requests per window and refuses the next', async () => {
+        const options = { name: 'test', windowMs: WINDOW_MS, max: 3, store };
+
+        const allowed = await sendTimes(options, 3);
+        assert.equal(allowed.error, undefined);
+        assert.equal(allowed.headers['RateLimit-Remaining'], 0);
+
+        const refused = await send(options);
+        assert.ok(refused.error instanceof AppError);
+        assert.equal(refused.error.code, 'RATE_LIMITED');
+        assert.equal(refused.error.params.retryAfter, 60);
+        assert.equal(refused.headers['Retry-After'], 60);
+    });
+
+    it('keeps counters apart per client and per limit name', async () => {
+        const options = { name: 'test', windowMs: WINDOW_MS, max: 1, store };
+
+        await send(options);
+
+        assert.equal((await send(options, '203.0.113.2')).error, undefined);
+        assert.equal((await send({ ...options, name: 'other' })).error, undefined);
+        assert.ok((await send(options)).error instanceof AppError);
+    });
+
+    it('resets fixed windows at the boundary', async () => {
+        const options = { name: 'test', windowMs: WINDOW_MS, max: 10, store };
+
+        mock.timers.setTime(WINDOW_MS - 1);
+        await sendTimes(options, 10);
+
+        mock.timers.setTime(WINDOW_MS);
+        const outcome = await send(options);
+        assert.equal(outcome.error, undefined);
+        assert.equal(outcome.headers['RateLimit-Remaining'], 9);
+    });
+
+    it('weights the previous window by the share not yet elapsed when sliding', async () => {
+        const options = { name: 'test', windowMs: WINDOW_MS, max: 10, algorithm: 'sliding' as const, store };
+
+        mock.timers.setTime(WINDOW_MS - 1);
+        await sendTimes(options, 10);
+
+        // A quarter into the next window: floor(10 * 0.75) + 1 = 8 used
+        mock.timers.setTime(WINDOW_MS * 1.25);
+        const first = await send(options);
+        assert.equal(first.error, undefined);
+        assert.equal(first.headers['RateLimit-Remaining'], 2);
+
+        assert.equal((await sendTimes(options, 2)).error, undefined);
+        assert.ok((await send(options)).error instanceof AppError);
+
+        // Half way the previous window only counts for 5
+        mock.timers.setTime(WINDOW_MS * 1.5);
+        assert.equal((await send(options)).headers['RateLimit-Remaining'], 0);
+    });
+
+    it('lets requests through when the store fails', async () => {
+        const logged = mock.method(logger, 'error', () => logger);
+        const failing: RateLimitStore = {
+            hit: async () => {
+                throw new Error('store down');
+            },
+        };
+
+        const outcome = await send({ name: 'test', windowMs: WINDOW_MS, max: 1, store: failing });
+
+        assert.equal(outcome.error, undefined);
+        assert.deepEqual(outcome.headers, {});
+        assert.equal(logged.mock.callCount(), 1);
+    });
+});
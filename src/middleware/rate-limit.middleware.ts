@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './error.middleware';
+import { logger } from './logger.middleware';
+import { rateLimitStore, RateLimitStore } from '../infrastructure/rate-limit';
+import { hashToken } from '../utils/token';
+import { annotate } from '../infrastructure/openapi';
+import { ErrorCode } from '../utils/error-catalog';
+
+type KeyResolver = 'ip' | 'user' | 'apiKey' | ((req: Request) => string | undefined);
+
+export type RateLimitOptions = {
+    /** Namespace separating the counters of different limits, e.g. 'auth:login' */
+    name: string;
+    /** Window length in milliseconds */
+    windowMs: number;
+    /** Requests allowed per window */
+    max: number;
+    /**
+     * - fixed: counts reset at each window boundary
+     * - sliding: weights the previous window to smooth out boundary bursts
+     */
+    algorithm?: 'fixed' | 'sliding';
+    /**
+     * What a client is identified by; user and apiKey fall back to the IP
+     * when the request carries no user or X-API-Key
+     */
+    keyBy?: KeyResolver;
+    store?: RateLimitStore;
+    /** Error code sent when the limit is exceeded */
+    errorCode?: ErrorCode;
+};
+
+const resolveKey = (req: Request, keyBy: KeyResolver): string => {
+    const ipKey = `ip:${req.ip ?? 'unknown'}`;
+
+    if (typeof keyBy === 'function') {
+        return keyBy(req) ?? ipKey;
+    }
+
+    switch (keyBy) {
+        case 'user':
+            return req.user ? `user:${req.user.id}` : ipKey;
+        case 'apiKey': {
+            // Hashed so raw API keys never reach the store
+            const apiKey = req.get('X-API-Key');
+            return apiKey ? `apiKey:${hashToken(apiKey)}` : ipKey;
+        }
+        case 'ip':
+            return ipKey;
+    }
+};
+
+/**
+ * Rate limiting middleware factory
+ * Sets RateLimit-Limit/Remaining/Reset headers on every response and
+ * Retry-After on 429 responses. Store failures are logged and the request
+ * is let through rather than failing the API.
+ *
+ * Usage:
+ * router.post('/login', rateLimit({ name: 'auth:login', windowMs: 60_000, max: 10 }), ...);
+ * router.post('/', authenticate, rateLimit({ name: 'users:create', windowMs: 60_000, max: 30, keyBy: 'user' }), ...);
+ *
+ * @param options - Limit definition for the route
+ * @returns Express middleware function
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+    const {
+        name,
+        windowMs,
+        max,
+        algorithm = 'fixed',
+        keyBy = 'ip',
+        store = rateLimitStore,
+        errorCode = 'RATE_LIMITED',
+    } = options;
+
+    return annotate(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const now = Date.now();
+        const windowStart = Math.floor(now / windowMs) * windowMs;
+        const key = `${name}:${resolveKey(req, keyBy)}`;
+
+        let counts;
+        try {
+            counts = await store.hit(key, windowStart, windowMs);
+        } catch (error) {
+            logger.error('Rate limit store unavailable, allowing request', { name, error });
+            return next();
+        }
+
+        const elapsedShare = (now - windowStart) / windowMs;
+        const used =
+            algorithm === 'sliding'
+                ? Math.floor(counts.previous * (1 - elapsedShare)) + counts.current
+                : counts.current;
+        const resetSeconds = Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000));
+
+        res.setHeader('RateLimit-Limit', max);
+        res.setHeader('RateLimit-Remaining', Math.max(0, max - used));
+        res.setHeader('RateLimit-Reset', resetSeconds);
+        res.setHeader('RateLimit-Policy', `${max};w=${Math.ceil(windowMs / 1000)}`);
+
+        if (used > max) {
+            res.setHeader('Retry-After', resetSeconds);
+            return next(new AppError(errorCode, { retryAfter: resetSeconds }));
+        }
+
+        next();
+    }, { rateLimited: true });
+};
@@ -0,0 +1,25 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/request-context';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept ids from upstream proxies only when they cannot garble logs
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Request context middleware
+ * Reuses the caller's X-Request-Id (or generates one), echoes it in the
+ * response and runs the rest of the request inside a request context, so
+ * log lines, errors and query logs can be tied to the request.
+ * Must be the first middleware.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+    req.id = requestId;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    runWithRequestContext({ requestId }, next);
+};
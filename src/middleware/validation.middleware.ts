@@ -1,9 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { AnyZodObject, ZodError } from 'zod';
+import { annotate } from '../infrastructure/openapi';
+import { zodErrorMap } from '../infrastructure/i18n';
 
 /**
  * Validation middleware factory
  * Creates a middleware that validates request data using Zod schemas
+ * The schemas also describe the request in the OpenAPI document
+ * Error messages are generated in the language of the request, so schemas
+ * need no messages of their own (see zodErrorMap)
  * 
  * Usage:
  * router.post('/users', validate({ body: createUserSchema }), userController.create);
@@ -17,21 +22,21 @@ export const validate = (schemas: {
     params?: AnyZodObject;
     query?: AnyZodObject;
 }) => {
-    return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    return annotate(async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
         try {
             // Validate request body if schema provided
             if (schemas.body) {
-                req.body = await schemas.body.parseAsync(req.body);
+                req.body = await schemas.body.parseAsync(req.body, { errorMap: zodErrorMap });
             }
 
             // Validate request params if schema provided
             if (schemas.params) {
-                req.params = await schemas.params.parseAsync(req.params);
+                req.params = await schemas.params.parseAsync(req.params, { errorMap: zodErrorMap });
             }
 
             // Validate request query if schema provided
             if (schemas.query) {
-                req.query = await schemas.query.parseAsync(req.query);
+                req.query = await schemas.query.parseAsync(req.query, { errorMap: zodErrorMap });
             }
 
             // If all validations pass, continue to next middleware
@@ -44,5 +49,5 @@ export const validate = (schemas: {
                 next(error);
             }
         }
-    };
+    }, { request: schemas });
 };
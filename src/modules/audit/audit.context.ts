@@ -0,0 +1,11 @@
+import { Request } from 'express';
+import { AuditContext } from './audit.types';
+
+/**
+ * Build the audit context of a request (authenticated user, client IP, user agent)
+ */
+export const auditContext = (req: Request): AuditContext => ({
+    actorId: req.user?.id ?? null,
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+});
@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { auditService } from './audit.service';
+import { asyncHandler } from '../../middleware/error.middleware';
+import { ListAuditLogsQuery } from './audit.types';
+import { t } from '../../infrastructure/i18n';
+
+/**
+ * Audit Controller
+ *
+ * Architecture Note:
+ * - Read-only; entries are written by the services that perform the actions
+ */
+class AuditController {
+    /**
+     * Query audit logs
+     * GET /api/audit-logs
+     */
+    getAll = asyncHandler(async (req: Request, res: Response) => {
+        // Request query is already validated and coerced by middleware
+        const query = req.query as unknown as ListAuditLogsQuery;
+        const { items, pageInfo } = await auditService.getAll(query);
+
+        res.status(200).json({
+            success: true,
+            message: t('audit.list_retrieved'),
+            data: items,
+            meta: { pagination: pageInfo },
+        });
+    });
+}
+
+// Export singleton instance
+export const auditController = new AuditController();
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { AuditLog } from './audit.schema';
+import { AuditChanges, AuditLogPage } from './audit.types';
+
+/**
+ * Response schemas for the OpenAPI document
+ */
+export const auditLogSchema: z.ZodType<AuditLog> = z.object({
+    id: z.string().uuid(),
+    actorId: z.string().uuid().nullable(),
+    action: z.string(),
+    targetType: z.string().nullable(),
+    targetId: z.string().uuid().nullable(),
+    ip: z.string().nullable(),
+    userAgent: z.string().nullable(),
+    // zod infers unknown properties as optional, hence the cast
+    changes: z
+        .record(z.object({ from: z.unknown(), to: z.unknown() }))
+        .nullable() as z.ZodType<AuditChanges | null>,
+    metadata: z.record(z.unknown()).nullable(),
+    createdAt: z.date(),
+});
+
+export const auditLogMetaSchema: z.ZodType<{ pagination: AuditLogPage['pageInfo'] }> = z.object({
+    pagination: z.object({
+        limit: z.number().int(),
+        hasMore: z.boolean(),
+        nextCursor: z.string().nullable(),
+    }),
+});
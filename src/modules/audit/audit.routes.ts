@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { auditController } from './audit.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate, requirePermission } from '../../middleware/auth.middleware';
+import { apiDoc } from '../../infrastructure/openapi';
+import { listAuditLogsQuerySchema } from './audit.validation';
+import { auditLogMetaSchema, auditLogSchema } from './audit.openapi';
+
+/**
+ * Audit log routes
+ *
+ * Architecture Note:
+ * - Routes are mounted at /api/audit-logs in the main app
+ */
+const router = Router();
+
+/**
+ * @route   GET /api/audit-logs
+ * @desc    Query audit logs by actor, target, action and time range
+ * @access  Private (audit:read)
+ */
+router.get(
+    '/',
+    apiDoc({
+        summary: 'Query audit logs',
+        description: 'Newest first, cursor paginated. An action ending in `.*` matches by prefix, e.g. `auth.*`.',
+        responses: {
+            200: { description: 'A page of audit entries', schema: z.array(auditLogSchema), meta: auditLogMetaSchema },
+        },
+    }),
+    authenticate,
+    requirePermission('audit:read'),
+    validate({ query: listAuditLogsQuerySchema }),
+    auditController.getAll
+);
+
+export default router;
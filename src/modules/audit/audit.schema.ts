@@ -0,0 +1,35 @@
+import { pgTable, uuid, varchar, text, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { users } from '../user/user.schema';
+
+/**
+ * Append-only record of auth and user-management events
+ * - actor is who performed the action (null for anonymous requests and jobs)
+ * - target is what it was performed on; it is not a foreign key so entries
+ *   outlive purged users and revoked sessions
+ */
+export const auditLogs = pgTable(
+    'audit_logs',
+    {
+        id: uuid('id').defaultRandom().primaryKey(),
+        actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+        action: varchar('action', { length: 100 }).notNull(),
+        targetType: varchar('target_type', { length: 50 }),
+        targetId: uuid('target_id'),
+        ip: varchar('ip', { length: 64 }),
+        userAgent: text('user_agent'),
+        /** Field-level before/after diff, sensitive fields excluded */
+        changes: jsonb('changes').$type<Record<string, { from: unknown; to: unknown }>>(),
+        metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+        /** Millisecond precision, so the list cursor round-trips through a JS Date */
+        createdAt: timestamp('created_at', { precision: 3 }).defaultNow().notNull(),
+    },
+    (table) => [
+        index('audit_logs_actor_id_idx').on(table.actorId),
+        index('audit_logs_action_idx').on(table.action),
+        index('audit_logs_target_idx').on(table.targetType, table.targetId),
+        index('audit_logs_created_at_idx').on(table.createdAt),
+    ]
+);
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type NewAuditLog = typeof auditLogs.$inferInsert;
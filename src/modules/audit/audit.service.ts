@@ -0,0 +1,204 @@
+import { SQL, and, desc, eq, gte, inArray, isNull, like, lt, lte, or, sql } from 'drizzle-orm';
+import { DbExecutor, db } from '../../infrastructure/database';
+import { auditLogs } from './audit.schema';
+import {
+    AuditChanges,
+    AuditContext,
+    AuditEntry,
+    AuditLogPage,
+    ListAuditLogsQuery,
+} from './audit.types';
+import { AppError } from '../../middleware/error.middleware';
+import { logger } from '../../middleware/logger.middleware';
+import { decodeCursor, encodeCursor, escapeLikePattern } from '../../utils/pagination';
+
+/**
+ * Fields never written to the audit log, not even as "changed"
+ * (password changes are recorded as metadata.passwordChanged instead)
+ */
+const EXCLUDED_FIELDS = new Set(['password', 'updatedAt']);
+
+/**
+ * Metadata keys holding personal data, removed when the user is purged
+ */
+const PERSONAL_METADATA_KEYS = ['email'];
+
+const REDACTED = '[redacted]';
+
+const CURSOR_SORT = 'createdAt:desc';
+
+const normalize = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+/**
+ * Audit Service
+ *
+ * Architecture Note:
+ * - Services call record() after a state change succeeds
+ * - Recording never fails the audited operation: errors are logged instead
+ */
+class AuditService {
+    /**
+     * Write an audit entry
+     */
+    async record(entry: AuditEntry, context: AuditContext = {}): Promise<void> {
+        try {
+            await db.insert(auditLogs).values({
+                actorId: entry.actorId !== undefined ? entry.actorId : context.actorId ?? null,
+                action: entry.action,
+                targetType: entry.targetType,
+                targetId: entry.targetId,
+                ip: context.ip,
+                userAgent: context.userAgent,
+                changes: entry.changes,
+                metadata: entry.metadata,
+            });
+        } catch (error) {
+            logger.error('Failed to write audit log', { action: entry.action, error });
+        }
+    }
+
+    /**
+     * Scrub personal data of purged users from their audit entries
+     * - Entries keep the action, ids and time; changes keep the field names
+     *   but lose their values, and personal metadata keys are removed
+     * - IP and user agent are cleared where the user made the request:
+     *   entries they acted in, and anonymous ones targeting them (failed logins)
+     * - Failed logins for an email without an active account (e.g. after the
+     *   soft delete) have no target and are matched by their email instead
+     * Call it in the purge transaction, before actor_id is nulled by a delete
+     */
+    async redactUsers(
+        purgedUsers: { id: string; email: string }[],
+        executor: DbExecutor = db
+    ): Promise<void> {
+        if (purgedUsers.length === 0) return;
+
+        const userIds = purgedUsers.map(({ id }) => id);
+        const byEmail = and(
+            isNull(auditLogs.actorId),
+            isNull(auditLogs.targetId),
+            inArray(
+                sql`lower(${auditLogs.metadata}->>'email')`,
+                purgedUsers.map(({ email }) => email.toLowerCase())
+            )
+        );
+
+        const redactedValue = JSON.stringify({ from: REDACTED, to: REDACTED });
+
+        await executor
+            .update(auditLogs)
+            .set({
+                changes: sql`(
+                    select jsonb_object_agg(field, ${redactedValue}::jsonb)
+                    from jsonb_object_keys(${auditLogs.changes}) as field
+                )`,
+                metadata: sql`${auditLogs.metadata} - array[${sql.join(
+                    PERSONAL_METADATA_KEYS.map((key) => sql`${key}`),
+                    sql`, `
+                )}]::text[]`,
+            })
+            .where(or(inArray(auditLogs.actorId, userIds), inArray(auditLogs.targetId, userIds), byEmail));
+
+        await executor
+            .update(auditLogs)
+            .set({ ip: null, userAgent: null })
+            .where(
+                or(
+                    inArray(auditLogs.actorId, userIds),
+                    and(isNull(auditLogs.actorId), inArray(auditLogs.targetId, userIds)),
+                    byEmail
+                )
+            );
+    }
+
+    /**
+     * Field-level diff between two versions of a record
+     * Pass null as before for creations; excluded fields are skipped
+     */
+    diff(before: object | null, after: object): AuditChanges {
+        const previous = (before ?? {}) as Record<string, unknown>;
+        const next = after as Record<string, unknown>;
+        const changes: AuditChanges = {};
+
+        for (const field of Object.keys(next)) {
+            if (EXCLUDED_FIELDS.has(field)) continue;
+
+            const from = normalize(previous[field]);
+            const to = normalize(next[field]);
+
+            if (from !== to) {
+                changes[field] = { from, to };
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Query audit logs, newest first
+     * - Filters by actor, target, action and created time range
+     * - action matches exactly, or by prefix when it ends with `.*` (e.g. `auth.*`)
+     */
+    async getAll(query: ListAuditLogsQuery): Promise<AuditLogPage> {
+        const filters: (SQL | undefined)[] = [
+            query.actorId ? eq(auditLogs.actorId, query.actorId) : undefined,
+            query.targetId ? eq(auditLogs.targetId, query.targetId) : undefined,
+            query.from ? gte(auditLogs.createdAt, query.from) : undefined,
+            query.to ? lte(auditLogs.createdAt, query.to) : undefined,
+        ];
+
+        if (query.action) {
+            filters.push(
+                query.action.endsWith('.*')
+                    ? like(auditLogs.action, `${escapeLikePattern(query.action.slice(0, -1))}%`)
+                    : eq(auditLogs.action, query.action)
+            );
+        }
+
+        if (query.cursor) {
+            const cursor = decodeCursor(query.cursor, CURSOR_SORT);
+            const createdAt = new Date(cursor.value);
+            if (Number.isNaN(createdAt.getTime())) {
+                throw new AppError('PAGINATION_INVALID_CURSOR');
+            }
+
+            filters.push(
+                or(
+                    lt(auditLogs.createdAt, createdAt),
+                    and(eq(auditLogs.createdAt, createdAt), lt(auditLogs.id, cursor.id))
+                )
+            );
+        }
+
+        // Fetch one extra row to know whether another page exists
+        const rows = await db
+            .select()
+            .from(auditLogs)
+            .where(and(...filters))
+            .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+            .limit(query.limit + 1);
+
+        const hasMore = rows.length > query.limit;
+        const items = rows.slice(0, query.limit);
+        const last = items[items.length - 1];
+
+        return {
+            items,
+            pageInfo: {
+                limit: query.limit,
+                hasMore,
+                nextCursor:
+                    hasMore && last
+                        ? encodeCursor({
+                              value: last.createdAt.toISOString(),
+                              id: last.id,
+                              sort: CURSOR_SORT,
+                          })
+                        : null,
+            },
+        };
+    }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,66 @@
+import { AuditLog } from './audit.schema';
+import { ListAuditLogsQueryInput } from './audit.validation';
+
+/**
+ * Who made a request and from where
+ * Built by controllers with auditContext(req) and passed down to services
+ */
+export type AuditContext = {
+    actorId?: string | null;
+    ip?: string;
+    userAgent?: string;
+};
+
+export type AuditAction =
+    | 'auth.register'
+    | 'auth.login'
+    | 'auth.login_failed'
+    | 'auth.mfa_challenge'
+    | 'auth.mfa_failed'
+    | 'auth.mfa_enabled'
+    | 'auth.mfa_disabled'
+    | 'auth.mfa_recovery_codes_regenerated'
+    | 'auth.identity_linked'
+    | 'auth.identity_unlinked'
+    | 'auth.refresh'
+    | 'auth.refresh_token_reuse'
+    | 'auth.logout'
+    | 'auth.logout_all'
+    | 'auth.session_revoked'
+    | 'auth.email_verified'
+    | 'auth.password_reset'
+    | 'user.create'
+    | 'user.update'
+    | 'user.delete'
+    | 'user.restore'
+    | 'user.unlock'
+    | 'user.purge'
+    | 'role.assign'
+    | 'role.revoke';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * A single audit entry
+ * actorId defaults to the context actor; pass it explicitly when the actor
+ * is only known after the fact (e.g. the user who just logged in)
+ */
+export type AuditEntry = {
+    action: AuditAction;
+    actorId?: string | null;
+    targetType?: 'user' | 'session';
+    targetId?: string | null;
+    changes?: AuditChanges;
+    metadata?: Record<string, unknown>;
+};
+
+export type ListAuditLogsQuery = ListAuditLogsQueryInput;
+
+export type AuditLogPage = {
+    items: AuditLog[];
+    pageInfo: {
+        limit: number;
+        hasMore: boolean;
+        nextCursor: string | null;
+    };
+};
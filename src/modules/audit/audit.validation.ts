@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for querying audit logs
+ * Newest first, cursor paginated; from/to bound createdAt inclusively
+ */
+export const listAuditLogsQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    cursor: z.string().min(1).optional(),
+    actorId: z.string().uuid('Invalid actor ID format').optional(),
+    targetId: z.string().uuid('Invalid target ID format').optional(),
+    action: z.string().min(1).max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+});
+
+export type ListAuditLogsQueryInput = z.infer<typeof listAuditLogsQuerySchema>;
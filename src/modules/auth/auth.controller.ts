@@ -1,58 +1,420 @@
-import { asyncHandler } from "@/middleware/error.middleware";
+import { AppError, asyncHandler } from "@/middleware/error.middleware";
 import { Request, Response } from "express";
 import { authService } from "./auth.service";
+import { emailVerificationService } from "./email-verification.service";
+import { passwordResetService } from "./password-reset.service";
+import { mfaService } from "./mfa.service";
+import { identityService } from "./identity.service";
+import {
+    AuthResponse,
+    MfaChallengeResponse,
+    PendingVerificationResponse,
+} from "./auth.types";
+import { config } from "@/config/env";
+import { auditContext } from "../audit/audit.context";
+import { listOidcProviders } from "@/infrastructure/oidc";
+import {
+    OAUTH_STATE_COOKIE,
+    REFRESH_TOKEN_COOKIE,
+    clearOAuthStateCookie,
+    clearRefreshTokenCookie,
+    setOAuthStateCookie,
+    setRefreshTokenCookie,
+    verifyAccessToken,
+} from "@/utils/token";
+import { oauthService } from "./oauth.service";
+import { t } from "@/infrastructure/i18n";
+
+/**
+ * Whether the refresh token for this request travels in an httpOnly cookie
+ * instead of the JSON body (see REFRESH_TOKEN_TRANSPORT)
+ */
+const usesCookieTransport = (req: Request): boolean => {
+    if (config.REFRESH_TOKEN_TRANSPORT === 'hybrid') {
+        return req.get('X-Refresh-Token-Transport') === 'cookie';
+    }
+    return config.REFRESH_TOKEN_TRANSPORT === 'cookie';
+}
+
+const readRefreshToken = (req: Request): string | undefined => {
+    return usesCookieTransport(req)
+        ? req.cookies?.[REFRESH_TOKEN_COOKIE]
+        : req.body?.refreshToken;
+}
+
+/**
+ * In cookie mode the refresh token is moved into the cookie and
+ * stripped from the response body so it is never readable from JS
+ */
+const withRefreshTransport = (
+    req: Request,
+    res: Response,
+    authResponse: AuthResponse | PendingVerificationResponse | MfaChallengeResponse
+) => {
+    if (!('refreshToken' in authResponse) || !usesCookieTransport(req)) {
+        return authResponse;
+    }
+
+    const { refreshToken, ...rest } = authResponse;
+    setRefreshTokenCookie(res, refreshToken);
+    return rest;
+}
+
+/**
+ * Id of the access token sent along with a public request, if it is valid
+ * Lets logout denylist it without making authentication mandatory
+ */
+const presentedAccessTokenId = async (req: Request): Promise<string | undefined> => {
+    const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) return undefined;
+
+    try {
+        return (await verifyAccessToken(token)).jti;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Error codes passed to the frontend when the OAuth callback fails
+ */
+const oauthErrorCode = (error: AppError): string => {
+    switch (error.statusCode) {
+        case 403:
+            return 'access_denied';
+        case 409:
+            return 'account_exists';
+        case 429:
+            return 'too_many_requests';
+        default:
+            return 'login_failed';
+    }
+}
+
+const withParam = (url: string, name: string, value: string) => {
+    const parsed = new URL(url);
+    parsed.searchParams.set(name, value);
+    return parsed.toString();
+}
 
 class AuthController {
     googleAuth = asyncHandler(async (req: Request, res: Response) => {
 
         const { idToken, device } = req.body;
-        const user = await authService.loginWithGoogle(idToken, device);
+        const user = await authService.loginWithGoogle(idToken, device, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.logged_in"),
+            data: withRefreshTransport(req, res, user),
+        });
+    })
+
+    getIdentities = asyncHandler(async (req: Request, res: Response) => {
+        const result = await identityService.list(req.user!.id);
 
         res.status(200).json({
             success: true,
-            message: 'User logged in successfully',
-            data: user,
+            message: t("auth.identities_retrieved"),
+            data: result,
+        });
+    })
+
+    linkIdentity = asyncHandler(async (req: Request, res: Response) => {
+        const { provider } = req.params as { provider: string };
+        const identity = await authService.linkIdentity(
+            req.user!.id,
+            provider,
+            req.body.idToken,
+            auditContext(req)
+        );
+
+        res.status(201).json({
+            success: true,
+            message: t("auth.identity_linked"),
+            data: identity,
+        });
+    })
+
+    unlinkIdentity = asyncHandler(async (req: Request, res: Response) => {
+        const { provider } = req.params as { provider: string };
+        const result = await identityService.unlink(req.user!.id, provider, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.identity_unlinked"),
+            data: result,
+        });
+    })
+
+    oidcAuth = asyncHandler(async (req: Request, res: Response) => {
+        const { provider } = req.params as { provider: string };
+        const { idToken, device } = req.body;
+        const user = await authService.loginWithOidc(provider, idToken, device, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.logged_in"),
+            data: withRefreshTransport(req, res, user),
+        });
+    })
+
+    /**
+     * Start the authorization-code flow: set the state cookie and send the
+     * browser to the provider. Google uses /google/start, others /oidc/:provider/start
+     * The callback hands over the session as a refresh token cookie, which
+     * /refresh only reads with the cookie or hybrid transport
+     */
+    oauthStart = asyncHandler(async (req: Request, res: Response) => {
+        if (config.REFRESH_TOKEN_TRANSPORT === 'body') {
+            throw new AppError('OAUTH_CODE_FLOW_DISABLED');
+        }
+
+        const provider = (req.params as { provider?: string }).provider ?? 'google';
+        const { redirectTo, device } = req.query as { redirectTo?: string; device?: string };
+        const { url, stateToken } = await oauthService.start(provider, redirectTo, device);
+
+        setOAuthStateCookie(res, stateToken);
+        res.redirect(302, url);
+    })
+
+    /**
+     * Provider redirect target: on success the refresh token is set as a
+     * cookie and the browser goes back to the frontend, which calls /refresh
+     * with the cookie transport (hybrid: with X-Refresh-Token-Transport: cookie). MFA users get the challenge token in the URL
+     * fragment; failures arrive as ?error=<code>
+     */
+    oauthCallback = asyncHandler(async (req: Request, res: Response) => {
+        const provider = (req.params as { provider?: string }).provider ?? 'google';
+        const stateToken: string | undefined = req.cookies?.[OAUTH_STATE_COOKIE];
+        const fallback = oauthService.readState(stateToken)?.redirectTo ?? oauthService.defaultRedirect();
+
+        // The state is single-use whatever the outcome
+        clearOAuthStateCookie(res);
+
+        try {
+            const { result, redirectTo } = await oauthService.callback(
+                provider,
+                req.query as { code?: string; state?: string; error?: string },
+                stateToken,
+                auditContext(req)
+            );
+
+            if ('mfaRequired' in result) {
+                return res.redirect(302, `${redirectTo}#mfa_challenge=${encodeURIComponent(result.challengeToken)}`);
+            }
+
+            setRefreshTokenCookie(res, result.refreshToken);
+            res.redirect(302, redirectTo);
+        } catch (error) {
+            if (!(error instanceof AppError)) throw error;
+
+            res.redirect(302, withParam(fallback, 'error', oauthErrorCode(error)));
+        }
+    })
+
+    getProviders = asyncHandler(async (_req: Request, res: Response) => {
+        res.status(200).json({
+            success: true,
+            message: t("auth.providers_retrieved"),
+            data: listOidcProviders(),
         });
     })
 
     login = asyncHandler(async (req: Request, res: Response) => {
-        const user = await authService.login(req.body);
+        const user = await authService.login(req.body, auditContext(req));
 
         res.status(200).json({
             success: true,
-            message: 'User logged in successfully',
-            data: user,
+            message: t("auth.logged_in"),
+            data: withRefreshTransport(req, res, user),
         });
     })
 
     register = asyncHandler(async (req: Request, res: Response) => {
-        const user = await authService.register(req.body);
+        const user = await authService.register(req.body, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.registered"),
+            data: withRefreshTransport(req, res, user),
+        });
+    })
+
+    verifyEmail = asyncHandler(async (req: Request, res: Response) => {
+        const result = await emailVerificationService.verify(req.body.token, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.email_verified"),
+            data: result,
+        });
+    })
+
+    resendVerification = asyncHandler(async (req: Request, res: Response) => {
+        const result = await emailVerificationService.resend(req.body.email);
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.verification_sent"),
+            data: result,
+        });
+    })
+
+    verifyMfa = asyncHandler(async (req: Request, res: Response) => {
+        const { challengeToken, code, recoveryCode } = req.body;
+        const user = await authService.verifyMfa(
+            challengeToken,
+            { code, recoveryCode },
+            auditContext(req)
+        );
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.logged_in"),
+            data: withRefreshTransport(req, res, user),
+        });
+    })
+
+    setupMfa = asyncHandler(async (req: Request, res: Response) => {
+        const result = await mfaService.setup(req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.mfa_setup_started"),
+            data: result,
+        });
+    })
+
+    confirmMfa = asyncHandler(async (req: Request, res: Response) => {
+        const result = await mfaService.confirm(req.user!.id, req.body.code, auditContext(req));
 
         res.status(200).json({
             success: true,
-            message: 'User registered successfully',
-            data: user,
+            message: t("auth.mfa_enabled"),
+            data: result,
+        });
+    })
+
+    disableMfa = asyncHandler(async (req: Request, res: Response) => {
+        const result = await mfaService.disable(req.user!.id, req.body, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.mfa_disabled"),
+            data: result,
+        });
+    })
+
+    regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response) => {
+        const result = await mfaService.regenerateRecoveryCodes(
+            req.user!.id,
+            req.body,
+            auditContext(req)
+        );
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.recovery_codes_regenerated"),
+            data: result,
+        });
+    })
+
+    forgotPassword = asyncHandler(async (req: Request, res: Response) => {
+        const result = await passwordResetService.forgot(req.body.email);
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.password_reset_sent"),
+            data: result,
+        });
+    })
+
+    resetPassword = asyncHandler(async (req: Request, res: Response) => {
+        const { token, password } = req.body;
+        const result = await passwordResetService.reset(token, password, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.password_reset"),
+            data: result,
         });
     })
 
     logout = asyncHandler(async (req: Request, res: Response) => {
-        const user = await authService.logout(req.body);
+        const result = await authService.logout(
+            readRefreshToken(req) ?? '',
+            auditContext(req),
+            await presentedAccessTokenId(req)
+        );
+
+        if (usesCookieTransport(req)) {
+            clearRefreshTokenCookie(res);
+        }
 
         res.status(200).json({
             success: true,
-            message: 'User logged out successfully',
-            data: user,
+            message: t("auth.logged_out"),
+            data: result,
+        });
+    })
+
+    logoutAll = asyncHandler(async (req: Request, res: Response) => {
+        const result = await authService.logoutAll(req.user!.id, auditContext(req));
+
+        if (usesCookieTransport(req)) {
+            clearRefreshTokenCookie(res);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.logged_out_all"),
+            data: result,
         });
     })
 
     refreshToken = asyncHandler(async (req: Request, res: Response) => {
-        const { refreshToken } = req.body;
-        const user = await authService.refresh(refreshToken);
+        const user = await authService.refresh(readRefreshToken(req) ?? '', auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.token_refreshed"),
+            data: withRefreshTransport(req, res, user),
+        });
+    })
+
+    getSessions = asyncHandler(async (req: Request, res: Response) => {
+        const sessions = await authService.getSessions(req.user!.id, req.user!.sessionId);
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.sessions_retrieved"),
+            data: sessions,
+        });
+    })
+
+    revokeSession = asyncHandler(async (req: Request, res: Response) => {
+        const { id } = req.params as { id: string };
+        const result = await authService.revokeSession(req.user!.id, id, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t("auth.session_revoked"),
+            data: result,
+        });
+    })
+
+    revokeOtherSessions = asyncHandler(async (req: Request, res: Response) => {
+        const result = await authService.revokeOtherSessions(
+            req.user!.id,
+            req.user!.sessionId,
+            auditContext(req)
+        );
 
         res.status(200).json({
             success: true,
-            message: 'User refreshed token successfully',
-            data: user,
+            message: t("auth.other_sessions_revoked"),
+            data: result,
         });
     })
 }
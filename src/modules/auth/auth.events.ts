@@ -0,0 +1,51 @@
+import { EventEmitter } from "events";
+import { logger } from "../../middleware/logger.middleware";
+
+/**
+ * Security-relevant auth events
+ * Emitted by AuthService; subscribe to forward them to alerting, auditing
+ * or metrics (see auth.metrics.ts)
+ */
+export type AuthEvents = {
+  /** Completed login; method is password, an OIDC provider name or mfa:<factor> */
+  login: {
+    userId: string;
+    method: string;
+  };
+  login_failed: {
+    method: string;
+    reason: "invalid_credentials" | "invalid_mfa_code";
+  };
+  refresh: {
+    userId: string;
+    familyId: string;
+  };
+  refresh_token_reuse: {
+    userId: string;
+    familyId: string;
+    tokenId: string;
+    device: string | null;
+  };
+};
+
+class AuthEventEmitter extends EventEmitter {
+  emit<K extends keyof AuthEvents>(event: K, payload: AuthEvents[K]): boolean {
+    return super.emit(event, payload);
+  }
+
+  on<K extends keyof AuthEvents>(
+    event: K,
+    listener: (payload: AuthEvents[K]) => void,
+  ): this {
+    return super.on(event, listener);
+  }
+}
+
+export const authEvents = new AuthEventEmitter();
+
+authEvents.on("refresh_token_reuse", (payload) => {
+  logger.warn("Security event: refresh token reuse detected", {
+    event: "refresh_token_reuse",
+    ...payload,
+  });
+});
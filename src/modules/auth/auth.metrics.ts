@@ -0,0 +1,38 @@
+import { Counter } from "prom-client";
+import { metricsRegistry } from "@/infrastructure/metrics";
+import { authEvents } from "./auth.events";
+
+/**
+ * Auth counters, fed by auth events
+ * Labels stay low-cardinality: sign-in methods and failure reasons, never users
+ */
+const loginsTotal = new Counter({
+  name: "auth_logins_total",
+  help: "Completed logins by sign-in method (password, OIDC provider, mfa:<factor>)",
+  labelNames: ["method"] as const,
+  registers: [metricsRegistry],
+});
+
+const loginFailuresTotal = new Counter({
+  name: "auth_login_failures_total",
+  help: "Rejected login attempts by sign-in method and reason",
+  labelNames: ["method", "reason"] as const,
+  registers: [metricsRegistry],
+});
+
+const refreshRotationsTotal = new Counter({
+  name: "auth_refresh_rotations_total",
+  help: "Refresh tokens rotated",
+  registers: [metricsRegistry],
+});
+
+const refreshTokenReuseTotal = new Counter({
+  name: "auth_refresh_token_reuse_total",
+  help: "Reused refresh tokens detected (token family revoked)",
+  registers: [metricsRegistry],
+});
+
+authEvents.on("login", ({ method }) => loginsTotal.inc({ method }));
+authEvents.on("login_failed", ({ method, reason }) => loginFailuresTotal.inc({ method, reason }));
+authEvents.on("refresh", () => refreshRotationsTotal.inc());
+authEvents.on("refresh_token_reuse", () => refreshTokenReuseTotal.inc());
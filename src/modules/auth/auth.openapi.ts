@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { userResponseSchema } from "../user/user.openapi";
+import { IdentityResponse, SessionResponse } from "./auth.types";
+
+/**
+ * Response schemas for the OpenAPI document
+ */
+export const authResponseSchema = z.object({
+    user: userResponseSchema,
+    accessToken: z.string(),
+    refreshToken: z
+        .string()
+        .optional()
+        .describe("Omitted when the refresh token travels in the refreshToken cookie"),
+})
+
+export const mfaChallengeResponseSchema = z.object({
+    mfaRequired: z.literal(true),
+    challengeToken: z.string().describe("Exchange at /api/auth/mfa/verify"),
+})
+
+export const pendingVerificationResponseSchema = z.object({
+    user: userResponseSchema,
+    verificationRequired: z.literal(true),
+})
+
+export const loginResponseSchema = z.union([authResponseSchema, mfaChallengeResponseSchema])
+
+export const registerResponseSchema = z.union([authResponseSchema, pendingVerificationResponseSchema])
+
+export const identityResponseSchema: z.ZodType<IdentityResponse> = z.object({
+    provider: z.string(),
+    email: z.string().nullable(),
+    linkedAt: z.date(),
+    lastUsedAt: z.date().nullable(),
+})
+
+export const signInMethodsResponseSchema = z.object({
+    password: z.boolean().describe("Whether the account has a password"),
+    identities: z.array(identityResponseSchema),
+})
+
+export const sessionResponseSchema: z.ZodType<SessionResponse> = z.object({
+    id: z.string().uuid(),
+    device: z.string().nullable(),
+    createdAt: z.date(),
+    lastUsedAt: z.date(),
+    expiresAt: z.date(),
+    current: z.boolean(),
+})
+
+export const revokedCountResponseSchema = z.object({
+    revoked: z.number().int().describe("Number of sessions revoked"),
+})
+
+export const mfaSetupResponseSchema = z.object({
+    secret: z.string(),
+    otpauthUri: z.string().describe("Render as a QR code for authenticator apps"),
+})
+
+export const recoveryCodesResponseSchema = z.object({
+    recoveryCodes: z.array(z.string()).describe("Shown once, never stored in plain text"),
+})
+
+export const providersResponseSchema = z.array(z.string()).describe("Names usable as :provider")
+
+export const unlinkIdentityResponseSchema = z.object({
+    provider: z.string(),
+})
+
+export const logoutResponseSchema = z.object({
+    success: z.boolean(),
+})
+
+export const sessionRevokedResponseSchema = z.object({
+    id: z.string().uuid(),
+})
+
+export const emailVerifiedResponseSchema = z.object({
+    verified: z.literal(true),
+})
+
+// Also returned when no email was sent, so the response never reveals whether the account exists
+export const emailSentResponseSchema = z.object({
+    sent: z.literal(true),
+})
+
+export const passwordResetResponseSchema = z.object({
+    reset: z.literal(true),
+})
+
+export const mfaDisabledResponseSchema = z.object({
+    enabled: z.literal(false),
+})
@@ -0,0 +1,508 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authController } from './auth.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate, requireVerifiedEmail } from '../../middleware/auth.middleware';
+import { rateLimit } from '../../middleware/rate-limit.middleware';
+import { apiDoc } from '../../infrastructure/openapi';
+import {
+    forgotPasswordSchema,
+    identityProviderSchema,
+    linkIdentitySchema,
+    loginSchema,
+    loginWithGoogleSchema,
+    loginWithOidcSchema,
+    logoutSchema,
+    mfaCodeSchema,
+    mfaProofSchema,
+    mfaVerifySchema,
+    oauthCallbackQuerySchema,
+    oauthStartQuerySchema,
+    refreshTokenSchema,
+    registerSchema,
+    resendVerificationSchema,
+    resetPasswordSchema,
+    sessionIdSchema,
+    verifyEmailSchema,
+} from './auth.validation';
+import {
+    authResponseSchema,
+    emailSentResponseSchema,
+    emailVerifiedResponseSchema,
+    identityResponseSchema,
+    loginResponseSchema,
+    logoutResponseSchema,
+    mfaDisabledResponseSchema,
+    mfaSetupResponseSchema,
+    passwordResetResponseSchema,
+    providersResponseSchema,
+    recoveryCodesResponseSchema,
+    registerResponseSchema,
+    revokedCountResponseSchema,
+    sessionResponseSchema,
+    sessionRevokedResponseSchema,
+    signInMethodsResponseSchema,
+    unlinkIdentityResponseSchema,
+} from './auth.openapi';
+
+/**
+ * Auth routes
+ *
+ * Architecture Note:
+ * - Routes are mounted at /api/auth in the main app
+ * - Refresh tokens are read from the body or the refreshToken cookie
+ *   depending on REFRESH_TOKEN_TRANSPORT (handled in the controller)
+ * - Public credential and email-sending endpoints are rate limited per IP
+ * - apiDoc() adds the summary and response schema to the OpenAPI document
+ */
+const router = Router();
+
+const loginLimit = rateLimit({ name: 'auth:login', windowMs: 60 * 1000, max: 10, algorithm: 'sliding' });
+const registerLimit = rateLimit({ name: 'auth:register', windowMs: 60 * 60 * 1000, max: 10 });
+const emailLimit = rateLimit({ name: 'auth:email', windowMs: 15 * 60 * 1000, max: 5 });
+const refreshLimit = rateLimit({ name: 'auth:refresh', windowMs: 60 * 1000, max: 30 });
+
+const CALLBACK_DESCRIPTION =
+    'Provider redirect target. On success the refreshToken cookie is set and the browser returns to redirectTo; ' +
+    'MFA users get `#mfa_challenge=<token>`, failures `?error=login_failed|access_denied|account_exists|too_many_requests`.';
+
+/**
+ * @route   POST /api/auth/register
+ * @desc    Register a local account and start a session
+ * @access  Public
+ */
+router.post(
+    '/register',
+    apiDoc({
+        summary: 'Register a local account and start a session',
+        description: 'Returns verificationRequired instead of tokens when UNVERIFIED_ACCOUNT_POLICY is block.',
+        responses: { 200: { description: 'Tokens, or pending verification', schema: registerResponseSchema } },
+    }),
+    registerLimit,
+    validate({ body: registerSchema }),
+    authController.register
+);
+
+/**
+ * @route   POST /api/auth/login
+ * @desc    Login with email and password
+ * @access  Public
+ */
+router.post(
+    '/login',
+    apiDoc({
+        summary: 'Login with email and password',
+        description: 'Users with MFA enabled get a challenge token instead of tokens.',
+        responses: { 200: { description: 'Tokens, or an MFA challenge', schema: loginResponseSchema } },
+    }),
+    loginLimit,
+    validate({ body: loginSchema }),
+    authController.login
+);
+
+/**
+ * @route   POST /api/auth/google
+ * @desc    Login or register with a Google ID token
+ * @access  Public
+ */
+router.post(
+    '/google',
+    apiDoc({
+        summary: 'Login or register with a Google ID token',
+        responses: { 200: { description: 'Tokens, or an MFA challenge', schema: loginResponseSchema } },
+    }),
+    loginLimit,
+    validate({ body: loginWithGoogleSchema }),
+    authController.googleAuth
+);
+
+/**
+ * @route   GET /api/auth/google/start
+ * @desc    Start the Google authorization-code flow (PKCE) and redirect to Google
+ * @access  Public
+ */
+router.get(
+    '/google/start',
+    apiDoc({
+        summary: 'Start the Google authorization-code flow',
+        description: 'Sets the OAuth state cookie and redirects to Google. Requires REFRESH_TOKEN_TRANSPORT cookie or hybrid, otherwise 404 OAUTH_CODE_FLOW_DISABLED.',
+        responses: { 302: { description: 'Redirect to Google', headers: { Location: 'Provider authorization URL' } } },
+    }),
+    loginLimit,
+    validate({ query: oauthStartQuerySchema }),
+    authController.oauthStart
+);
+
+/**
+ * @route   GET /api/auth/google/callback
+ * @desc    Google redirect target; sets the refresh token cookie and redirects to the frontend
+ * @access  Public (requires the OAuth state cookie)
+ */
+router.get(
+    '/google/callback',
+    apiDoc({
+        summary: 'Google authorization-code callback',
+        description: CALLBACK_DESCRIPTION,
+        responses: { 302: { description: 'Redirect to the frontend', headers: { Location: 'Frontend URL' } } },
+        security: [{ oauthStateCookie: [] }],
+    }),
+    loginLimit,
+    validate({ query: oauthCallbackQuerySchema }),
+    authController.oauthCallback
+);
+
+/**
+ * @route   GET /api/auth/providers
+ * @desc    List the registered OIDC providers
+ * @access  Public
+ */
+router.get(
+    '/providers',
+    apiDoc({
+        summary: 'List the registered OIDC providers',
+        responses: { 200: { description: 'Provider names', schema: providersResponseSchema } },
+    }),
+    authController.getProviders
+);
+
+/**
+ * @route   POST /api/auth/oidc/:provider
+ * @desc    Login or register with an ID token from a registered OIDC provider
+ * @access  Public
+ */
+router.post(
+    '/oidc/:provider',
+    apiDoc({
+        summary: 'Login or register with an ID token from an OIDC provider',
+        responses: { 200: { description: 'Tokens, or an MFA challenge', schema: loginResponseSchema } },
+    }),
+    loginLimit,
+    validate({ params: identityProviderSchema, body: loginWithOidcSchema }),
+    authController.oidcAuth
+);
+
+/**
+ * @route   GET /api/auth/oidc/:provider/start
+ * @desc    Start the authorization-code flow (PKCE) of a registered OIDC provider
+ * @access  Public
+ */
+router.get(
+    '/oidc/:provider/start',
+    apiDoc({
+        summary: 'Start the authorization-code flow of an OIDC provider',
+        description: 'Sets the OAuth state cookie and redirects to the provider. Requires REFRESH_TOKEN_TRANSPORT cookie or hybrid, otherwise 404 OAUTH_CODE_FLOW_DISABLED.',
+        responses: { 302: { description: 'Redirect to the provider', headers: { Location: 'Provider authorization URL' } } },
+    }),
+    loginLimit,
+    validate({ params: identityProviderSchema, query: oauthStartQuerySchema }),
+    authController.oauthStart
+);
+
+/**
+ * @route   GET /api/auth/oidc/:provider/callback
+ * @desc    Provider redirect target; sets the refresh token cookie and redirects to the frontend
+ * @access  Public (requires the OAuth state cookie)
+ */
+router.get(
+    '/oidc/:provider/callback',
+    apiDoc({
+        summary: 'OIDC authorization-code callback',
+        description: CALLBACK_DESCRIPTION,
+        responses: { 302: { description: 'Redirect to the frontend', headers: { Location: 'Frontend URL' } } },
+        security: [{ oauthStateCookie: [] }],
+    }),
+    loginLimit,
+    validate({ params: identityProviderSchema, query: oauthCallbackQuerySchema }),
+    authController.oauthCallback
+);
+
+/**
+ * @route   GET /api/auth/identities
+ * @desc    List the caller's sign-in methods (password and linked identities)
+ * @access  Private
+ */
+router.get(
+    '/identities',
+    apiDoc({
+        summary: 'List the sign-in methods of the caller',
+        responses: { 200: { description: 'Password and linked identities', schema: signInMethodsResponseSchema } },
+    }),
+    authenticate,
+    authController.getIdentities
+);
+
+/**
+ * @route   POST /api/auth/identities/:provider
+ * @desc    Link an account of a registered OIDC provider (ID token) to the caller
+ * @access  Private
+ */
+router.post(
+    '/identities/:provider',
+    apiDoc({
+        summary: 'Link an OIDC provider account to the caller',
+        responses: { 201: { description: 'The linked identity', schema: identityResponseSchema } },
+    }),
+    authenticate,
+    requireVerifiedEmail,
+    validate({ params: identityProviderSchema, body: linkIdentitySchema }),
+    authController.linkIdentity
+);
+
+/**
+ * @route   DELETE /api/auth/identities/:provider
+ * @desc    Unlink an identity (refused for the last sign-in method)
+ * @access  Private
+ */
+router.delete(
+    '/identities/:provider',
+    apiDoc({
+        summary: 'Unlink an identity',
+        description: 'Refused with 409 for the last sign-in method.',
+        responses: { 200: { description: 'The unlinked provider', schema: unlinkIdentityResponseSchema } },
+    }),
+    authenticate,
+    validate({ params: identityProviderSchema }),
+    authController.unlinkIdentity
+);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Rotate the refresh token and issue a new access token
+ * @access  Public (requires refresh token)
+ */
+router.post(
+    '/refresh',
+    apiDoc({
+        summary: 'Rotate the refresh token and issue a new access token',
+        description: 'The refresh token is read from the body or the refreshToken cookie (REFRESH_TOKEN_TRANSPORT).',
+        responses: { 200: { description: 'New tokens', schema: authResponseSchema } },
+        security: [{}, { refreshTokenCookie: [] }],
+    }),
+    refreshLimit,
+    validate({ body: refreshTokenSchema }),
+    authController.refreshToken
+);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Revoke the current session (and the presented access token, if any)
+ * @access  Public (requires refresh token)
+ */
+router.post(
+    '/logout',
+    apiDoc({
+        summary: 'Revoke the current session',
+        description: 'An access token sent along is revoked as well.',
+        responses: { 200: { description: 'Logged out', schema: logoutResponseSchema } },
+        security: [{}, { refreshTokenCookie: [] }, { bearerAuth: [] }],
+    }),
+    validate({ body: logoutSchema }),
+    authController.logout
+);
+
+/**
+ * @route   POST /api/auth/logout-all
+ * @desc    Revoke every session and access token of the caller, including the current one
+ * @access  Private
+ */
+router.post(
+    '/logout-all',
+    apiDoc({
+        summary: 'Revoke every session and access token of the caller',
+        responses: { 200: { description: 'Number of sessions revoked', schema: revokedCountResponseSchema } },
+    }),
+    authenticate,
+    authController.logoutAll
+);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify an email address with the emailed token
+ * @access  Public
+ */
+router.post(
+    '/verify-email',
+    apiDoc({
+        summary: 'Verify an email address with the emailed token',
+        responses: { 200: { description: 'Email verified', schema: emailVerifiedResponseSchema } },
+    }),
+    emailLimit,
+    validate({ body: verifyEmailSchema }),
+    authController.verifyEmail
+);
+
+/**
+ * @route   POST /api/auth/verify-email/resend
+ * @desc    Resend the verification email (never reveals whether the account exists)
+ * @access  Public
+ */
+router.post(
+    '/verify-email/resend',
+    apiDoc({
+        summary: 'Resend the verification email',
+        responses: { 200: { description: 'Accepted', schema: emailSentResponseSchema } },
+    }),
+    emailLimit,
+    validate({ body: resendVerificationSchema }),
+    authController.resendVerification
+);
+
+/**
+ * @route   POST /api/auth/mfa/verify
+ * @desc    Exchange an MFA challenge token and a TOTP or recovery code for tokens
+ * @access  Public (requires MFA challenge token)
+ */
+router.post(
+    '/mfa/verify',
+    apiDoc({
+        summary: 'Exchange an MFA challenge and a code for tokens',
+        responses: { 200: { description: 'Tokens', schema: authResponseSchema } },
+    }),
+    loginLimit,
+    validate({ body: mfaVerifySchema }),
+    authController.verifyMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/setup
+ * @desc    Start TOTP enrollment (returns secret and otpauth URI)
+ * @access  Private
+ */
+router.post(
+    '/mfa/setup',
+    apiDoc({
+        summary: 'Start TOTP enrollment',
+        responses: { 200: { description: 'Secret and otpauth URI', schema: mfaSetupResponseSchema } },
+    }),
+    authenticate,
+    authController.setupMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/confirm
+ * @desc    Enable MFA with a first TOTP code and receive recovery codes
+ * @access  Private
+ */
+router.post(
+    '/mfa/confirm',
+    apiDoc({
+        summary: 'Enable MFA with a first TOTP code',
+        responses: { 200: { description: 'Recovery codes', schema: recoveryCodesResponseSchema } },
+    }),
+    authenticate,
+    validate({ body: mfaCodeSchema }),
+    authController.confirmMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/disable
+ * @desc    Disable MFA (requires a TOTP or recovery code)
+ * @access  Private
+ */
+router.post(
+    '/mfa/disable',
+    apiDoc({
+        summary: 'Disable MFA',
+        responses: { 200: { description: 'MFA disabled', schema: mfaDisabledResponseSchema } },
+    }),
+    authenticate,
+    validate({ body: mfaProofSchema }),
+    authController.disableMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/recovery-codes
+ * @desc    Replace recovery codes (requires a TOTP or recovery code)
+ * @access  Private
+ */
+router.post(
+    '/mfa/recovery-codes',
+    apiDoc({
+        summary: 'Replace the recovery codes',
+        responses: { 200: { description: 'New recovery codes', schema: recoveryCodesResponseSchema } },
+    }),
+    authenticate,
+    validate({ body: mfaProofSchema }),
+    authController.regenerateRecoveryCodes
+);
+
+/**
+ * @route   POST /api/auth/password/forgot
+ * @desc    Email a password reset link (never reveals whether the account exists)
+ * @access  Public
+ */
+router.post(
+    '/password/forgot',
+    apiDoc({
+        summary: 'Email a password reset link',
+        responses: { 200: { description: 'Accepted', schema: emailSentResponseSchema } },
+    }),
+    emailLimit,
+    validate({ body: forgotPasswordSchema }),
+    authController.forgotPassword
+);
+
+/**
+ * @route   POST /api/auth/password/reset
+ * @desc    Set a new password with the emailed token and revoke all sessions
+ * @access  Public
+ */
+router.post(
+    '/password/reset',
+    apiDoc({
+        summary: 'Set a new password with the emailed token',
+        description: 'Revokes every session and access token of the user.',
+        responses: { 200: { description: 'Password reset', schema: passwordResetResponseSchema } },
+    }),
+    emailLimit,
+    validate({ body: resetPasswordSchema }),
+    authController.resetPassword
+);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the caller's active sessions, flagging the current one
+ * @access  Private
+ */
+router.get(
+    '/sessions',
+    apiDoc({
+        summary: 'List the active sessions of the caller',
+        responses: { 200: { description: 'Sessions, the current one flagged', schema: z.array(sessionResponseSchema) } },
+    }),
+    authenticate,
+    authController.getSessions
+);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Log out everywhere else (revoke all sessions but the current one)
+ * @access  Private
+ */
+router.delete(
+    '/sessions',
+    apiDoc({
+        summary: 'Revoke all sessions but the current one',
+        responses: { 200: { description: 'Number of sessions revoked', schema: revokedCountResponseSchema } },
+    }),
+    authenticate,
+    authController.revokeOtherSessions
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke one of the caller's sessions
+ * @access  Private
+ */
+router.delete(
+    '/sessions/:id',
+    apiDoc({
+        summary: 'Revoke one of the caller\'s sessions',
+        responses: { 200: { description: 'The revoked session', schema: sessionRevokedResponseSchema } },
+    }),
+    authenticate,
+    validate({ params: sessionIdSchema }),
+    authController.revokeSession
+);
+
+export default router;
@@ -1,208 +1,685 @@
-import { db } from "@/infrastructure/database";
-import { users } from "../user/user.schema";
+import { db, withTransaction } from "@/infrastructure/database";
+import { User, userIsActive, users } from "../user/user.schema";
 import { refreshTokens } from "./user_tokens.schema";
 import { AppError } from "../../middleware/error.middleware";
 import {
+  generateMfaChallengeToken,
   generateRefreshToken,
   generateToken,
   hashToken,
+  verifyMfaChallengeToken,
   verifyToken,
 } from "@/utils/token";
-import { and, eq } from "drizzle-orm";
+import { and, desc, eq, gt, inArray, isNull, min, ne } from "drizzle-orm";
 import bcrypt from "bcrypt";
-import { OAuth2Client } from "google-auth-library";
-import { AuthResponse } from "./auth.types";
+import crypto from "crypto";
+import {
+  AuthResponse,
+  MfaChallengeResponse,
+  PendingVerificationResponse,
+  SessionResponse,
+} from "./auth.types";
 import { config } from "../../config/env";
+import { roleService } from "../role/role.service";
+import { authEvents } from "./auth.events";
+import "./auth.metrics";
+import { emailVerificationService } from "./email-verification.service";
+import { identityService } from "./identity.service";
+import { getOidcProvider } from "@/infrastructure/oidc";
+import { tokenRevocationService } from "./token-revocation.service";
+import { MfaCode, mfaService } from "./mfa.service";
+import {
+  accountThrottleKey,
+  ipThrottleKey,
+  loginThrottleService,
+} from "./login-throttle.service";
+import { auditService } from "../audit/audit.service";
+import { AuditContext } from "../audit/audit.types";
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 hari
 
-const googleClient = new OAuth2Client(
-  config.GOOGLE_CLIENT_ID,
-  config.GOOGLE_CLIENT_SECRET,
-);
+// Compared against when the account has no password, to keep timing uniform
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomUUID(), 10);
 
 class AuthService {
+  /**
+   * Mint an access/refresh token pair for an existing session
+   * The access token carries the session (token family) id as sid so the
+   * session can be recognized as "current" when listing sessions
+   */
+  private async _issueTokens(user: User, sessionId: string) {
+    const access = await roleService.getUserAccess(user.id);
+    const accessToken = await generateToken(user, access, sessionId);
+    const refreshToken = generateRefreshToken(user);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Enforce UNVERIFIED_ACCOUNT_POLICY=block before issuing tokens
+   */
+  private _assertLoginAllowed(user: User) {
+    if (
+      config.UNVERIFIED_ACCOUNT_POLICY === "block" &&
+      !user.emailVerifiedAt
+    ) {
+      throw new AppError("AUTH_EMAIL_NOT_VERIFIED");
+    }
+  }
+
+  /**
+   * Finish the first login factor
+   * Users with MFA enabled get a short-lived challenge token instead of
+   * real tokens; it is exchanged in verifyMfa
+   */
+  private async _startLogin(
+    user: User,
+    device: string,
+    method: string,
+    context: AuditContext,
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    if (await mfaService.isEnabled(user.id)) {
+      await this._recordLogin("auth.mfa_challenge", user, method, context);
+
+      return {
+        mfaRequired: true,
+        challengeToken: generateMfaChallengeToken(
+          user.id,
+          device || "Unknown Device",
+        ),
+      };
+    }
+
+    const response = await this._generateAuthResponse(user, device);
+    await this._recordLogin("auth.login", user, method, context);
+
+    return response;
+  }
+
+  private _recordLogin(
+    action: "auth.login" | "auth.mfa_challenge",
+    user: User,
+    method: string,
+    context: AuditContext,
+  ) {
+    if (action === "auth.login") {
+      authEvents.emit("login", { userId: user.id, method });
+    }
+
+    return auditService.record(
+      {
+        action,
+        actorId: user.id,
+        targetType: "user",
+        targetId: user.id,
+        metadata: { method },
+      },
+      context,
+    );
+  }
+
+  /**
+   * Start a new session (token family)
+   * The refresh token and lastLoginAt are written in one transaction
+   */
   private async _generateAuthResponse(
-    user: typeof users.$inferSelect,
+    user: User,
     device: string,
   ): Promise<AuthResponse> {
-    const accessToken = generateToken(user);
-    const refreshToken = generateRefreshToken(user);
-    const hashedRefreshToken = hashToken(refreshToken);
+    const familyId = crypto.randomUUID();
+    const { accessToken, refreshToken } = await this._issueTokens(
+      user,
+      familyId,
+    );
 
-    await db.insert(refreshTokens).values({
-      userId: user.id,
-      tokenHash: hashedRefreshToken,
-      device: device || "Unknown Device",
-      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 hari
-    });
+    await withTransaction(async (tx) => {
+      await tx.insert(refreshTokens).values({
+        userId: user.id,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        device: device || "Unknown Device",
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      });
 
-    await db
-      .update(users)
-      .set({ lastLoginAt: new Date() })
-      .where(eq(users.id, user.id));
+      await tx
+        .update(users)
+        .set({ lastLoginAt: new Date() })
+        .where(eq(users.id, user.id));
+    });
 
     return { user, accessToken, refreshToken };
   }
 
-  loginWithGoogle = async (idToken: string, device: string) => {
-    let ticket;
-    try {
-      ticket = await googleClient.verifyIdToken({
-        idToken: idToken,
-        audience: process.env.GOOGLE_CLIENT_ID,
-      });
-    } catch (error) {
-      throw new AppError(401, "Invalid Google Token");
-    }
+  /**
+   * Sign-in with an ID token from a registered OIDC provider
+   * The account is resolved by the provider identity; matching emails are
+   * linked only as ACCOUNT_LINKING_POLICY allows (see IdentityService)
+   * - nonce is checked when the token comes from our own authorization request
+   */
+  loginWithOidc = async (
+    providerName: string,
+    idToken: string,
+    device: string,
+    context: AuditContext = {},
+    nonce?: string,
+  ) => {
+    const profile = await getOidcProvider(providerName).verifyIdToken(idToken, {
+      nonce,
+    });
+    const user = await identityService.resolveLogin(profile, context);
+
+    this._assertLoginAllowed(user);
+
+    return this._startLogin(user, device, providerName, context);
+  };
+
+  loginWithGoogle = async (
+    idToken: string,
+    device: string,
+    context: AuditContext = {},
+  ) => this.loginWithOidc("google", idToken, device, context);
+
+  /**
+   * Link an identity of a registered OIDC provider to the signed-in user
+   */
+  linkIdentity = async (
+    userId: string,
+    providerName: string,
+    idToken: string,
+    context: AuditContext = {},
+  ) => {
+    const profile = await getOidcProvider(providerName).verifyIdToken(idToken);
+    return identityService.link(userId, profile, context);
+  };
+
+  /**
+   * Password login
+   * - Unknown email, passwordless account and wrong password all fail with
+   *   the same 401 (and similar timing) so accounts cannot be enumerated
+   * - Failures are throttled per account and per IP; success clears the
+   *   account's counter
+   */
+  login = async (data: any, context: AuditContext = {}) => {
+    const throttleKeys = [accountThrottleKey(data.email)];
+    if (context.ip) throttleKeys.push(ipThrottleKey(context.ip));
+
+    await loginThrottleService.assertAllowed(throttleKeys);
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, data.email), userIsActive))
+      .limit(1);
+
+    const isPasswordValid = await bcrypt.compare(
+      data.password,
+      user?.password ?? DUMMY_PASSWORD_HASH,
+    );
 
-    const payload = ticket.getPayload();
-    if (!payload || !payload.email) {
-      throw new AppError(400, "Google account validation failed");
+    if (!user || !user.password || !isPasswordValid) {
+      await loginThrottleService.recordFailure(throttleKeys);
+      authEvents.emit("login_failed", { method: "password", reason: "invalid_credentials" });
+      await auditService.record(
+        {
+          action: "auth.login_failed",
+          targetType: "user",
+          targetId: user?.id ?? null,
+          metadata: { method: "password", email: data.email },
+        },
+        context,
+      );
+      throw new AppError("AUTH_INVALID_CREDENTIALS");
     }
 
-    const { email, name, sub: googleId, picture } = payload;
+    await loginThrottleService.clear(accountThrottleKey(user.email));
 
-    let [user] = await db
+    this._assertLoginAllowed(user);
+
+    return this._startLogin(user, data.device, "password", context);
+  };
+
+  register = async (
+    data: any,
+    context: AuditContext = {},
+  ): Promise<AuthResponse | PendingVerificationResponse> => {
+    const [existingUser] = await db
       .select()
       .from(users)
-      .where(eq(users.email, email))
+      .where(eq(users.email, data.email))
       .limit(1);
 
-    if (!user) {
-      [user] = await db
+    if (existingUser) {
+      throw new AppError("USER_EMAIL_TAKEN");
+    }
+
+    const hashedPassword = await bcrypt.hash(data.password, 10);
+
+    const defaultAvatarUrl = `https://ui-avatars.com/api/?name=${encodeURIComponent(data.name)}&background=random&color=fff&size=128`;
+
+    // The account and its role are created together; a concurrent
+    // registration of the same email loses on the unique constraint
+    const user = await withTransaction(async (tx) => {
+      const [user] = await tx
         .insert(users)
         .values({
-          email: email,
-          name: name || "User",
-          password: null,
-          googleId: googleId,
-          authProvider: "google",
-          avatar: picture,
+          email: data.email,
+          name: data.name,
+          password: hashedPassword,
+          authProvider: "local",
+          avatar: defaultAvatarUrl,
         })
+        .onConflictDoNothing({ target: users.email })
         .returning();
-    } else {
-      if (!user.googleId) {
-        await db
-          .update(users)
-          .set({ googleId: googleId, authProvider: "google" })
-          .where(eq(users.id, user.id));
+
+      if (!user) {
+        throw new AppError("USER_EMAIL_TAKEN");
       }
+
+      await roleService.assignDefaultRole(user.id, tx);
+      return user;
+    });
+
+    await emailVerificationService.send(user);
+
+    await auditService.record(
+      {
+        action: "auth.register",
+        actorId: user.id,
+        targetType: "user",
+        targetId: user.id,
+        changes: auditService.diff(null, user),
+        metadata: { method: "password" },
+      },
+      context,
+    );
+
+    if (config.UNVERIFIED_ACCOUNT_POLICY === "block") {
+      return { user, verificationRequired: true };
     }
 
-    return this._generateAuthResponse(user!, device);
+    return this._generateAuthResponse(user, data.device);
   };
 
-  login = async (data: any) => {
+  /**
+   * Second login factor: exchange an MFA challenge token plus a TOTP or
+   * recovery code for real tokens
+   */
+  verifyMfa = async (
+    challengeToken: string,
+    proof: MfaCode,
+    context: AuditContext = {},
+  ) => {
+    let challenge;
+    try {
+      challenge = verifyMfaChallengeToken(challengeToken);
+    } catch (error) {
+      throw new AppError("MFA_CHALLENGE_INVALID");
+    }
+
     const [user] = await db
       .select()
       .from(users)
-      .where(eq(users.email, data.email))
+      .where(and(eq(users.id, challenge.userId), userIsActive))
+      .limit(1);
+    if (!user) throw new AppError("MFA_CHALLENGE_INVALID");
+
+    // Second-factor guesses count toward the same account lockout
+    const throttleKey = accountThrottleKey(user.email);
+    await loginThrottleService.assertAllowed([throttleKey]);
+
+    try {
+      await mfaService.verify(user.id, proof);
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 401) {
+        await loginThrottleService.recordFailure([throttleKey]);
+        authEvents.emit("login_failed", {
+          method: proof.code ? "mfa:totp" : "mfa:recovery_code",
+          reason: "invalid_mfa_code",
+        });
+        await auditService.record(
+          {
+            action: "auth.mfa_failed",
+            targetType: "user",
+            targetId: user.id,
+            metadata: { method: proof.code ? "totp" : "recovery_code" },
+          },
+          context,
+        );
+      }
+      throw error;
+    }
+
+    await loginThrottleService.clear(throttleKey);
+
+    this._assertLoginAllowed(user);
+
+    const response = await this._generateAuthResponse(user, challenge.device);
+    await this._recordLogin(
+      "auth.login",
+      user,
+      proof.code ? "mfa:totp" : "mfa:recovery_code",
+      context,
+    );
+
+    return response;
+  };
+
+  /**
+   * Rotate a refresh token
+   * - The presented token is marked used and a successor is issued in the same family
+   * - Presenting an already used token means it was replayed (stolen or
+   *   leaked), so the whole family is revoked and a security event is emitted
+   */
+  refresh = async (token: string, context: AuditContext = {}) => {
+    if (!token) throw new AppError("AUTH_REFRESH_TOKEN_MISSING");
+
+    try {
+      verifyToken(token);
+    } catch (error) {
+      throw new AppError("AUTH_REFRESH_TOKEN_INVALID");
+    }
+
+    const [storedRefreshToken] = await db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, hashToken(token)))
       .limit(1);
 
-    if (!user) {
-      throw new AppError(404, "User not found");
+    if (!storedRefreshToken) {
+      throw new AppError("AUTH_REFRESH_TOKEN_INVALID");
     }
 
-    if (!user.password) {
-      throw new AppError(400, "Please login with Google");
+    if (storedRefreshToken.usedAt) {
+      await this._revokeReusedFamily(storedRefreshToken, context);
     }
 
-    const isPasswordValid = await bcrypt.compare(data.password, user.password);
-    if (!isPasswordValid) {
-      throw new AppError(401, "Invalid password");
+    if (storedRefreshToken.revoked) {
+      throw new AppError("AUTH_REFRESH_TOKEN_REVOKED");
     }
 
-    return this._generateAuthResponse(user, data.device);
-  };
+    if (new Date() > storedRefreshToken.expiresAt) {
+      throw new AppError("AUTH_REFRESH_TOKEN_EXPIRED");
+    }
 
-  register = async (data: any) => {
-    const [existingUser] = await db
+    const [user] = await db
       .select()
       .from(users)
-      .where(eq(users.email, data.email))
+      .where(and(eq(users.id, storedRefreshToken.userId), userIsActive))
       .limit(1);
+    if (!user) throw new AppError("AUTH_REFRESH_TOKEN_INVALID");
 
-    if (existingUser) {
-      throw new AppError(400, "User already exists");
+    this._assertLoginAllowed(user);
+
+    const { accessToken, refreshToken } = await this._issueTokens(
+      user,
+      storedRefreshToken.familyId,
+    );
+
+    // Claiming the token and storing its successor commit together, so a
+    // failure in between cannot leave the session without a usable token
+    const claimed = await withTransaction(async (tx) => {
+      const [claimed] = await tx
+        .update(refreshTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(refreshTokens.id, storedRefreshToken.id),
+            isNull(refreshTokens.usedAt),
+            eq(refreshTokens.revoked, false),
+          ),
+        )
+        .returning({ id: refreshTokens.id });
+
+      if (!claimed) return false;
+
+      await tx.insert(refreshTokens).values({
+        userId: user.id,
+        familyId: storedRefreshToken.familyId,
+        tokenHash: hashToken(refreshToken),
+        device: storedRefreshToken.device,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      });
+
+      return true;
+    });
+
+    // Losing the claim to a concurrent refresh is also reuse
+    if (!claimed) {
+      await this._revokeReusedFamily(storedRefreshToken, context);
     }
 
-    const hashedPassword = await bcrypt.hash(data.password, 10);
+    authEvents.emit("refresh", {
+      userId: user.id,
+      familyId: storedRefreshToken.familyId,
+    });
 
-    const defaultAvatarUrl = `https://ui-avatars.com/api/?name=${encodeURIComponent(data.name)}&background=random&color=fff&size=128`;
+    await auditService.record(
+      {
+        action: "auth.refresh",
+        actorId: user.id,
+        targetType: "session",
+        targetId: storedRefreshToken.familyId,
+      },
+      context,
+    );
 
-    const [user] = await db
-      .insert(users)
-      .values({
-        email: data.email,
-        name: data.name,
-        password: hashedPassword,
-        authProvider: "local",
-        avatar: defaultAvatarUrl,
+    return { user, accessToken, refreshToken };
+  };
+
+  private async _revokeReusedFamily(
+    token: typeof refreshTokens.$inferSelect,
+    context: AuditContext,
+  ): Promise<never> {
+    await db
+      .update(refreshTokens)
+      .set({ revoked: true })
+      .where(eq(refreshTokens.familyId, token.familyId));
+    await tokenRevocationService.denySession(token.familyId);
+
+    authEvents.emit("refresh_token_reuse", {
+      userId: token.userId,
+      familyId: token.familyId,
+      tokenId: token.id,
+      device: token.device,
+    });
+
+    await auditService.record(
+      {
+        action: "auth.refresh_token_reuse",
+        actorId: null,
+        targetType: "session",
+        targetId: token.familyId,
+        metadata: { userId: token.userId, tokenId: token.id },
+      },
+      context,
+    );
+
+    throw new AppError("AUTH_REFRESH_TOKEN_REUSED");
+  }
+
+  /**
+   * Log out of one session
+   * The session's refresh tokens are revoked and its access tokens (plus
+   * the presented one, if any) are denylisted until they expire
+   */
+  logout = async (
+    refreshTokenString: string,
+    context: AuditContext = {},
+    accessTokenId?: string,
+  ) => {
+    if (!refreshTokenString) throw new AppError("AUTH_LOGOUT_TOKEN_REQUIRED");
+
+    const [storedRefreshToken] = await db
+      .select({
+        familyId: refreshTokens.familyId,
+        userId: refreshTokens.userId,
       })
-      .returning();
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, hashToken(refreshTokenString)))
+      .limit(1);
 
-    if (!user) {
-      throw new AppError(500, "Failed to create user");
+    if (storedRefreshToken) {
+      await db
+        .update(refreshTokens)
+        .set({ revoked: true })
+        .where(eq(refreshTokens.familyId, storedRefreshToken.familyId));
+      await tokenRevocationService.denySession(storedRefreshToken.familyId);
+
+      await auditService.record(
+        {
+          action: "auth.logout",
+          actorId: storedRefreshToken.userId,
+          targetType: "session",
+          targetId: storedRefreshToken.familyId,
+        },
+        context,
+      );
     }
 
-    return this._generateAuthResponse(user, data.device);
+    if (accessTokenId) {
+      await tokenRevocationService.denyToken(accessTokenId);
+    }
+
+    return { success: true };
   };
 
-  refresh = async (token: string) => {
-    if (!token) throw new AppError(401, "No token provided");
+  /**
+   * Log out everywhere, including the current session
+   * Revokes every refresh token and bumps the token version so every
+   * access token stops working immediately
+   */
+  logoutAll = async (userId: string, context: AuditContext = {}) => {
+    const revoked = await db
+      .update(refreshTokens)
+      .set({ revoked: true })
+      .where(
+        and(eq(refreshTokens.userId, userId), eq(refreshTokens.revoked, false)),
+      )
+      .returning({ familyId: refreshTokens.familyId });
+
+    await tokenRevocationService.bumpVersion(userId);
 
-    const decodedToken = verifyToken(token);
-    if (!decodedToken) throw new AppError(401, "Invalid token signature");
+    await auditService.record(
+      { action: "auth.logout_all", targetType: "user", targetId: userId },
+      context,
+    );
 
-    const incomingTokenHash = hashToken(token);
+    return { revoked: new Set(revoked.map((token) => token.familyId)).size };
+  };
 
-    const [storedRefreshToken] = await db
+  /**
+   * List the active sessions of a user
+   * A session is a token family whose latest token is unused, not revoked
+   * and not expired. The session the request was made from is flagged as current.
+   */
+  getSessions = async (
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponse[]> => {
+    const activeTokens = await db
       .select()
       .from(refreshTokens)
       .where(
         and(
-          eq(refreshTokens.tokenHash, incomingTokenHash),
+          eq(refreshTokens.userId, userId),
           eq(refreshTokens.revoked, false),
+          isNull(refreshTokens.usedAt),
+          gt(refreshTokens.expiresAt, new Date()),
         ),
       )
-      .limit(1);
+      .orderBy(desc(refreshTokens.createdAt));
 
-    if (!storedRefreshToken) {
-      throw new AppError(401, "Refresh token reuse detected or invalid");
-    }
+    if (activeTokens.length === 0) return [];
 
-    if (new Date() > storedRefreshToken.expiresAt) {
-      await db
-        .delete(refreshTokens)
-        .where(eq(refreshTokens.id, storedRefreshToken.id));
-      throw new AppError(401, "Refresh token expired");
-    }
+    const families = await db
+      .select({
+        familyId: refreshTokens.familyId,
+        startedAt: min(refreshTokens.createdAt),
+      })
+      .from(refreshTokens)
+      .where(
+        inArray(
+          refreshTokens.familyId,
+          activeTokens.map((token) => token.familyId),
+        ),
+      )
+      .groupBy(refreshTokens.familyId);
+
+    return activeTokens.map((token) => ({
+      id: token.familyId,
+      device: token.device,
+      createdAt:
+        families.find((family) => family.familyId === token.familyId)
+          ?.startedAt ?? token.createdAt,
+      // Every refresh issues a new token, so the latest token marks last use
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      current: token.familyId === currentSessionId,
+    }));
+  };
 
-    await db
-      .delete(refreshTokens)
-      .where(eq(refreshTokens.id, storedRefreshToken.id));
+  revokeSession = async (
+    userId: string,
+    sessionId: string,
+    context: AuditContext = {},
+  ) => {
+    const revoked = await db
+      .update(refreshTokens)
+      .set({ revoked: true })
+      .where(
+        and(
+          eq(refreshTokens.familyId, sessionId),
+          eq(refreshTokens.userId, userId),
+          eq(refreshTokens.revoked, false),
+        ),
+      )
+      .returning({ id: refreshTokens.id });
 
-    const [user] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, storedRefreshToken.userId))
-      .limit(1);
-    if (!user) throw new AppError(404, "User not found");
+    if (revoked.length === 0) throw new AppError("AUTH_SESSION_NOT_FOUND");
 
-    return this._generateAuthResponse(
-      user,
-      storedRefreshToken.device || "Unknown",
+    await tokenRevocationService.denySession(sessionId);
+
+    await auditService.record(
+      { action: "auth.session_revoked", targetType: "session", targetId: sessionId },
+      context,
     );
+
+    return { id: sessionId };
   };
 
-  logout = async (refreshTokenString: string) => {
-    if (!refreshTokenString) throw new AppError(400, "Token required");
-    const tokenHashToFind = hashToken(refreshTokenString);
+  /**
+   * Log out everywhere else: revoke every session except the current one
+   */
+  revokeOtherSessions = async (
+    userId: string,
+    currentSessionId?: string,
+    context: AuditContext = {},
+  ) => {
+    const revoked = await db
+      .update(refreshTokens)
+      .set({ revoked: true })
+      .where(
+        and(
+          eq(refreshTokens.userId, userId),
+          eq(refreshTokens.revoked, false),
+          currentSessionId
+            ? ne(refreshTokens.familyId, currentSessionId)
+            : undefined,
+        ),
+      )
+      .returning({ familyId: refreshTokens.familyId });
 
-    await db
-      .delete(refreshTokens)
-      .where(eq(refreshTokens.tokenHash, tokenHashToFind));
+    const sessionIds = [...new Set(revoked.map((token) => token.familyId))];
 
-    return { success: true };
+    for (const sessionId of sessionIds) {
+      await tokenRevocationService.denySession(sessionId);
+      await auditService.record(
+        { action: "auth.session_revoked", targetType: "session", targetId: sessionId },
+        context,
+      );
+    }
+
+    return { revoked: sessionIds.length };
   };
 }
 
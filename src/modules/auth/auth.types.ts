@@ -1,7 +1,93 @@
 import { User } from "../user/user.schema";
+import { Locale } from "@/infrastructure/i18n";
 
 export type AuthResponse = {
   user: User;
   accessToken: string;
   refreshToken: string;
 };
+
+/**
+ * Registration result when UNVERIFIED_ACCOUNT_POLICY=block:
+ * the account exists but no tokens are issued until the email is verified
+ */
+export type PendingVerificationResponse = {
+  user: User;
+  verificationRequired: true;
+};
+
+/**
+ * Login result for users with MFA enabled: the password (or Google) step
+ * succeeded and the challenge token must be exchanged at /mfa/verify
+ */
+export type MfaChallengeResponse = {
+  mfaRequired: true;
+  challengeToken: string;
+};
+
+/**
+ * Claims carried by the access token minted in generateToken
+ */
+export type AccessTokenPayload = {
+  id: string;
+  email: string;
+  roles: string[];
+  permissions: string[];
+  emailVerified: boolean;
+  sid: string;
+  ver: number;
+  /** The user's preferred locale, absent on tokens minted before it existed */
+  locale?: string | null;
+  jti: string;
+  iat: number;
+  exp: number;
+};
+
+/**
+ * Authenticated principal attached to req.user by the authenticate middleware
+ */
+export type AuthenticatedUser = {
+  id: string;
+  email: string;
+  roles: string[];
+  permissions: string[];
+  emailVerified: boolean;
+  sessionId?: string;
+  tokenId?: string;
+  locale?: Locale;
+};
+
+/**
+ * A login session as shown to its owner
+ * Backed by a refresh_tokens row
+ */
+export type SessionResponse = {
+  id: string;
+  device: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+};
+
+/**
+ * Profile of an external identity, as verified from the provider's ID token
+ */
+export type ExternalProfile = {
+  provider: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+};
+
+/**
+ * A sign-in method of the current user as listed on /identities
+ */
+export type IdentityResponse = {
+  provider: string;
+  email: string | null;
+  linkedAt: Date;
+  lastUsedAt: Date | null;
+};
@@ -18,10 +18,74 @@ export const loginWithGoogleSchema = z.object({
     device: z.string(),
 })
 
+export const loginWithOidcSchema = z.object({
+    idToken: z.string(),
+    device: z.string(),
+})
+
+export const oauthStartQuerySchema = z.object({
+    redirectTo: z.string().url().optional(),
+    device: z.string().max(255).optional(),
+})
+
+export const oauthCallbackQuerySchema = z.object({
+    code: z.string().optional(),
+    state: z.string().optional(),
+    error: z.string().optional(),
+})
+
+export const linkIdentitySchema = z.object({
+    idToken: z.string(),
+})
+
+export const identityProviderSchema = z.object({
+    provider: z.string().min(1).max(50),
+})
+
+// refreshToken is optional because cookie-transport clients send it as a cookie
 export const logoutSchema = z.object({
-    refreshToken: z.string(),
+    refreshToken: z.string().optional(),
 })
 
 export const refreshTokenSchema = z.object({
-    refreshToken: z.string(),
+    refreshToken: z.string().optional(),
+})
+
+export const sessionIdSchema = z.object({
+    id: z.string().uuid(),
+})
+
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1),
+})
+
+export const resendVerificationSchema = z.object({
+    email: z.string().email(),
+})
+
+export const forgotPasswordSchema = z.object({
+    email: z.string().email(),
+})
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1),
+    password: z
+        .string()
+        .min(8)
+        .max(255),
+})
+
+export const mfaCodeSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, 'validation.mfa_code'),
+})
+
+// Either a TOTP code or a recovery code proves possession of the second factor;
+// the service rejects requests carrying neither
+export const mfaProofSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, 'validation.mfa_code').optional(),
+    recoveryCode: z.string().min(1).optional(),
+})
+
+export const mfaVerifySchema = mfaProofSchema.extend({
+    challengeToken: z.string(),
 })
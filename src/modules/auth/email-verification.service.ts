@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { db, withTransaction } from "@/infrastructure/database";
+import { mailer } from "@/infrastructure/mail";
+import { User, userIsActive, users } from "../user/user.schema";
+import { emailVerificationTokens } from "./user_tokens.schema";
+import { AppError } from "../../middleware/error.middleware";
+import { logger } from "../../middleware/logger.middleware";
+import { hashToken } from "@/utils/token";
+import { escapeHtml } from "@/utils/html";
+import { config } from "../../config/env";
+import { auditService } from "../audit/audit.service";
+import { AuditContext } from "../audit/audit.types";
+
+class EmailVerificationService {
+  /**
+   * Issue a fresh verification token and email it to the user
+   * - Previously issued, unused tokens are discarded so only the latest link works
+   * - Mail transport failures are logged, not thrown; the user can ask for a resend
+   */
+  send = async (user: Pick<User, "id" | "email" | "name">) => {
+    const token = crypto.randomBytes(32).toString("hex");
+
+    await db
+      .delete(emailVerificationTokens)
+      .where(
+        and(
+          eq(emailVerificationTokens.userId, user.id),
+          isNull(emailVerificationTokens.usedAt),
+        ),
+      );
+
+    await db.insert(emailVerificationTokens).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(
+        Date.now() + config.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+      ),
+    });
+
+    const link = `${config.APP_URL}/verify-email?token=${token}`;
+
+    try {
+      await mailer.send({
+        to: user.email,
+        subject: "Verify your email address",
+        text: `Hi ${user.name},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in ${config.EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+        html: `<p>Hi ${escapeHtml(user.name)},</p><p>Confirm your email address by opening <a href="${link}">this link</a>.</p><p>The link expires in ${config.EMAIL_VERIFICATION_TTL_HOURS} hours.</p>`,
+      });
+    } catch (error) {
+      logger.error("Failed to send verification email", {
+        userId: user.id,
+        error,
+      });
+    }
+  };
+
+  /**
+   * Consume a verification token and mark the owner's email as verified
+   */
+  verify = async (token: string, context: AuditContext = {}) => {
+    const [storedToken] = await db
+      .select()
+      .from(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.tokenHash, hashToken(token)))
+      .limit(1);
+
+    if (!storedToken || storedToken.usedAt) {
+      throw new AppError("VERIFICATION_TOKEN_INVALID");
+    }
+
+    if (new Date() > storedToken.expiresAt) {
+      throw new AppError("VERIFICATION_TOKEN_EXPIRED");
+    }
+
+    const now = new Date();
+
+    // Claimed atomically so a token can only be spent once
+    await withTransaction(async (tx) => {
+      const [claimed] = await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: now })
+        .where(
+          and(
+            eq(emailVerificationTokens.id, storedToken.id),
+            isNull(emailVerificationTokens.usedAt),
+          ),
+        )
+        .returning({ id: emailVerificationTokens.id });
+
+      if (!claimed) throw new AppError("VERIFICATION_TOKEN_INVALID");
+
+      await tx
+        .update(users)
+        .set({ emailVerifiedAt: now, updatedAt: now })
+        .where(and(eq(users.id, storedToken.userId), userIsActive));
+    });
+
+    await auditService.record(
+      {
+        action: "auth.email_verified",
+        actorId: storedToken.userId,
+        targetType: "user",
+        targetId: storedToken.userId,
+      },
+      context,
+    );
+
+    return { verified: true };
+  };
+
+  /**
+   * Resend the verification email
+   * Always succeeds so the endpoint cannot be used to discover accounts
+   */
+  resend = async (email: string) => {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), userIsActive))
+      .limit(1);
+
+    if (user && !user.emailVerifiedAt) {
+      await this.send(user);
+    }
+
+    return { sent: true };
+  };
+}
+
+export const emailVerificationService = new EmailVerificationService();
@@ -0,0 +1,45 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  unique,
+} from 'drizzle-orm/pg-core';
+
+import { users } from '../user/user.schema';
+
+/**
+ * External sign-in identities (Google, OIDC providers) linked to a user
+ * - (provider, subject) identifies the external account and maps to one user
+ * - A user holds at most one identity per provider
+ */
+export const userIdentities = pgTable(
+  'user_identities',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, {
+        onDelete: 'cascade',
+      }),
+
+    provider: varchar('provider', { length: 50 }).notNull(),
+
+    /** The provider's stable account id (the `sub` claim) */
+    subject: varchar('subject', { length: 255 }).notNull(),
+
+    /** Email reported by the provider when the identity was linked */
+    email: varchar('email', { length: 255 }),
+
+    linkedAt: timestamp('linked_at').defaultNow().notNull(),
+
+    lastUsedAt: timestamp('last_used_at'),
+  },
+  (table) => [
+    unique('user_identities_provider_subject_unique').on(table.provider, table.subject),
+    unique('user_identities_user_provider_unique').on(table.userId, table.provider),
+  ],
+);
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
@@ -0,0 +1,412 @@
+import { and, count, eq } from "drizzle-orm";
+import { DbExecutor, db, withTransaction } from "@/infrastructure/database";
+import { NewUser, User, userIsActive, users } from "../user/user.schema";
+import { userIdentities } from "./identity.schema";
+import { refreshTokens } from "./user_tokens.schema";
+import { ExternalProfile, IdentityResponse } from "./auth.types";
+import { AppError } from "../../middleware/error.middleware";
+import { config } from "../../config/env";
+import { roleService } from "../role/role.service";
+import { emailVerificationService } from "./email-verification.service";
+import { auditService } from "../audit/audit.service";
+import { AuditContext } from "../audit/audit.types";
+import { tokenRevocationService } from "./token-revocation.service";
+
+/**
+ * Identity Service
+ *
+ * Architecture Note:
+ * - Owns the external identities (Google, OIDC) a user can sign in with
+ * - A user's sign-in methods are their password (if set) plus their identities;
+ *   the last one can never be removed
+ * - Provider token verification happens in the caller; this service only
+ *   receives verified ExternalProfiles
+ */
+class IdentityService {
+  /**
+   * Resolve the user an external sign-in belongs to
+   * 1. Known (provider, subject): that identity's user
+   * 2. Unknown identity whose email matches an account: ACCOUNT_LINKING_POLICY
+   * 3. Otherwise: a new account
+   *
+   * Concurrent first sign-ins race to create the account; the loser's insert
+   * waits for the winner to commit and is then resolved against its result
+   */
+  resolveLogin = async (
+    profile: ExternalProfile,
+    context: AuditContext = {},
+  ): Promise<User> => {
+    const user =
+      (await this._resolve(profile, context)) ??
+      (await this._resolve(profile, context));
+
+    if (!user) {
+      throw new AppError("CONCURRENT_UPDATE");
+    }
+
+    return user;
+  };
+
+  /**
+   * Returns undefined when the account was created concurrently
+   */
+  private async _resolve(
+    profile: ExternalProfile,
+    context: AuditContext,
+  ): Promise<User | undefined> {
+    const [linked] = await db
+      .select({ identityId: userIdentities.id, user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(userIdentities.userId, users.id))
+      .where(
+        and(
+          eq(userIdentities.provider, profile.provider),
+          eq(userIdentities.subject, profile.subject),
+        ),
+      )
+      .limit(1);
+
+    if (linked) {
+      if (linked.user.deletedAt) {
+        throw new AppError("AUTH_ACCOUNT_DELETED");
+      }
+
+      await db
+        .update(userIdentities)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(userIdentities.id, linked.identityId));
+
+      return linked.user;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, profile.email))
+      .limit(1);
+
+    if (existing) {
+      return this._mergeByEmail(existing, profile, context);
+    }
+
+    return this._createFromProfile(profile, context);
+  }
+
+  /**
+   * List the sign-in methods of a user
+   */
+  list = async (
+    userId: string,
+  ): Promise<{ password: boolean; identities: IdentityResponse[] }> => {
+    const user = await this._findUser(userId);
+
+    const identities = await db
+      .select({
+        provider: userIdentities.provider,
+        email: userIdentities.email,
+        linkedAt: userIdentities.linkedAt,
+        lastUsedAt: userIdentities.lastUsedAt,
+      })
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId));
+
+    return { password: !!user.password, identities };
+  };
+
+  /**
+   * Explicitly link an external identity to the signed-in user
+   * The emails do not have to match: the user proves control of both
+   * accounts by being signed in and presenting the provider's token
+   */
+  link = async (
+    userId: string,
+    profile: ExternalProfile,
+    context: AuditContext = {},
+  ): Promise<IdentityResponse> => {
+    await this._findUser(userId);
+
+    const [owner] = await db
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.provider, profile.provider),
+          eq(userIdentities.subject, profile.subject),
+        ),
+      )
+      .limit(1);
+
+    if (owner) {
+      throw new AppError(
+        owner.userId === userId
+          ? "IDENTITY_ALREADY_LINKED"
+          : "IDENTITY_LINKED_TO_OTHER_USER",
+      );
+    }
+
+    const identity = await this._insertIdentity(userId, profile);
+    if (!identity) {
+      throw new AppError("IDENTITY_PROVIDER_ALREADY_LINKED", {
+        provider: profile.provider,
+      });
+    }
+
+    await auditService.record(
+      {
+        action: "auth.identity_linked",
+        targetType: "user",
+        targetId: userId,
+        metadata: { provider: profile.provider, via: "explicit" },
+      },
+      context,
+    );
+
+    return identity;
+  };
+
+  /**
+   * Unlink an external identity
+   * - Throws 404 if the provider is not linked
+   * - Throws 409 if it is the user's last sign-in method
+   */
+  unlink = async (
+    userId: string,
+    provider: string,
+    context: AuditContext = {},
+  ) => {
+    // The user row is locked so two concurrent unlinks cannot each see the
+    // other's identity as the remaining sign-in method
+    await withTransaction(async (tx) => {
+      const [user] = await tx
+        .select()
+        .from(users)
+        .where(and(eq(users.id, userId), userIsActive))
+        .for("update");
+
+      if (!user) throw new AppError("USER_NOT_FOUND");
+
+      const [{ total } = { total: 0 }] = await tx
+        .select({ total: count() })
+        .from(userIdentities)
+        .where(eq(userIdentities.userId, userId));
+
+      const [identity] = await tx
+        .select({ id: userIdentities.id })
+        .from(userIdentities)
+        .where(
+          and(
+            eq(userIdentities.userId, userId),
+            eq(userIdentities.provider, provider),
+          ),
+        )
+        .limit(1);
+
+      if (!identity) throw new AppError("IDENTITY_NOT_FOUND");
+
+      if (!user.password && total <= 1) {
+        throw new AppError("IDENTITY_LAST_SIGN_IN_METHOD");
+      }
+
+      await tx.delete(userIdentities).where(eq(userIdentities.id, identity.id));
+    });
+
+    await auditService.record(
+      {
+        action: "auth.identity_unlinked",
+        targetType: "user",
+        targetId: userId,
+        metadata: { provider },
+      },
+      context,
+    );
+
+    return { provider };
+  };
+
+  /**
+   * Sign-in whose email matches an existing account
+   * - Only a provider-verified email proves ownership, and only when
+   *   ACCOUNT_LINKING_POLICY allows automatic linking
+   * - If the existing account never verified its email, its password was
+   *   never proven to belong to the email owner: it is removed and its
+   *   sessions revoked so a pre-registered account cannot be taken over
+   */
+  private async _mergeByEmail(
+    existing: User,
+    profile: ExternalProfile,
+    context: AuditContext,
+  ): Promise<User> {
+    // The email stays taken during the restore window of a deleted account
+    if (existing.deletedAt) {
+      throw new AppError("AUTH_ACCOUNT_DELETED");
+    }
+
+    if (config.ACCOUNT_LINKING_POLICY === "never" || !profile.emailVerified) {
+      throw new AppError("IDENTITY_LINK_REQUIRED", {
+        provider: profile.provider,
+      });
+    }
+
+    // Linking and taking over an unverified account commit together
+    const { user, versionBumped } = await withTransaction(async (tx) => {
+      const identity = await this._insertIdentity(existing.id, profile, tx);
+      if (!identity) {
+        throw new AppError("IDENTITY_PROVIDER_MISMATCH", {
+          provider: profile.provider,
+        });
+      }
+
+      if (existing.emailVerifiedAt) {
+        return { user: existing, versionBumped: false };
+      }
+
+      const update: Partial<NewUser> = {
+        password: null,
+        emailVerifiedAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const [user] = await tx
+        .update(users)
+        .set(update)
+        .where(eq(users.id, existing.id))
+        .returning();
+
+      if (!user) throw new AppError("INTERNAL_ERROR");
+
+      await tx
+        .update(refreshTokens)
+        .set({ revoked: true })
+        .where(eq(refreshTokens.userId, existing.id));
+      const tokenVersion = await tokenRevocationService.bumpVersion(
+        existing.id,
+        tx,
+      );
+
+      // Tokens are signed from this row, so it must carry the new version
+      return {
+        user: { ...user, tokenVersion: tokenVersion ?? user.tokenVersion },
+        versionBumped: true,
+      };
+    });
+
+    if (versionBumped) {
+      tokenRevocationService.cacheVersion(user.id, user.tokenVersion);
+    }
+
+    await auditService.record(
+      {
+        action: "auth.identity_linked",
+        actorId: existing.id,
+        targetType: "user",
+        targetId: existing.id,
+        changes: auditService.diff(existing, user),
+        metadata: {
+          provider: profile.provider,
+          via: "email_match",
+          passwordRemoved: !!existing.password && !user.password,
+        },
+      },
+      context,
+    );
+
+    return user;
+  }
+
+  /**
+   * Create the account, its identity and role in one transaction
+   * Returns undefined when the email was taken in the meantime
+   */
+  private async _createFromProfile(
+    profile: ExternalProfile,
+    context: AuditContext,
+  ): Promise<User | undefined> {
+    const user = await withTransaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          email: profile.email,
+          name: profile.name || "User",
+          password: null,
+          authProvider: profile.provider,
+          avatar: profile.picture,
+          emailVerifiedAt: profile.emailVerified ? new Date() : null,
+        })
+        .onConflictDoNothing({ target: users.email })
+        .returning();
+
+      if (!user) return undefined;
+
+      const identity = await this._insertIdentity(user.id, profile, tx);
+      if (!identity) {
+        throw new AppError("IDENTITY_LINKED_TO_OTHER_USER");
+      }
+
+      await roleService.assignDefaultRole(user.id, tx);
+      return user;
+    });
+
+    if (!user) return undefined;
+
+    if (!profile.emailVerified) {
+      await emailVerificationService.send(user);
+    }
+
+    await auditService.record(
+      {
+        action: "auth.register",
+        actorId: user.id,
+        targetType: "user",
+        targetId: user.id,
+        changes: auditService.diff(null, user),
+        metadata: { method: profile.provider },
+      },
+      context,
+    );
+
+    return user;
+  }
+
+  /**
+   * Returns undefined when the identity or the user's slot for this
+   * provider is already taken
+   */
+  private async _insertIdentity(
+    userId: string,
+    profile: ExternalProfile,
+    executor: DbExecutor = db,
+  ) {
+    const [identity] = await executor
+      .insert(userIdentities)
+      .values({
+        userId,
+        provider: profile.provider,
+        subject: profile.subject,
+        email: profile.email,
+        lastUsedAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning({
+        provider: userIdentities.provider,
+        email: userIdentities.email,
+        linkedAt: userIdentities.linkedAt,
+        lastUsedAt: userIdentities.lastUsedAt,
+      });
+
+    return identity;
+  }
+
+  private async _findUser(userId: string) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), userIsActive))
+      .limit(1);
+
+    if (!user) throw new AppError("USER_NOT_FOUND");
+
+    return user;
+  }
+}
+
+export const identityService = new IdentityService();
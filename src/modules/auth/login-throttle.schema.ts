@@ -0,0 +1,16 @@
+import { pgTable, varchar, integer, timestamp } from 'drizzle-orm/pg-core';
+
+/**
+ * Failed login counters, keyed by `account:<email>` or `ip:<address>`
+ * Keyed by email rather than user id so unknown emails are throttled
+ * exactly like existing ones
+ */
+export const loginThrottles = pgTable('login_throttles', {
+  key: varchar('key', { length: 320 }).primaryKey(),
+
+  failures: integer('failures').default(0).notNull(),
+
+  lastFailureAt: timestamp('last_failure_at').defaultNow().notNull(),
+
+  lockedUntil: timestamp('locked_until'),
+});
@@ -0,0 +1,117 @@
+import { eq, inArray, sql } from "drizzle-orm";
+import { db } from "@/infrastructure/database";
+import { loginThrottles } from "./login-throttle.schema";
+import { AppError } from "../../middleware/error.middleware";
+import { logger } from "../../middleware/logger.middleware";
+import { config } from "../../config/env";
+
+type ThrottlePolicy = {
+  maxAttempts: number;
+  lockoutMs: number;
+};
+
+const MAX_DELAY_MS = 30 * 1000;
+
+export const accountThrottleKey = (email: string) =>
+  `account:${email.trim().toLowerCase()}`;
+
+export const ipThrottleKey = (ip: string) => `ip:${ip}`;
+
+const policyFor = (key: string): ThrottlePolicy =>
+  key.startsWith("ip:")
+    ? {
+        maxAttempts: config.LOGIN_MAX_ATTEMPTS_PER_IP,
+        lockoutMs: config.LOGIN_LOCKOUT_MINUTES * 60 * 1000,
+      }
+    : {
+        maxAttempts: config.LOGIN_MAX_ATTEMPTS_PER_ACCOUNT,
+        lockoutMs: config.LOGIN_LOCKOUT_MINUTES * 60 * 1000,
+      };
+
+/**
+ * Login Throttle Service
+ *
+ * - Every failed attempt increments per-account and per-IP counters
+ * - After LOGIN_DELAY_AFTER failures each further attempt must wait an
+ *   exponentially growing delay (1s, 2s, 4s ... capped at 30s)
+ * - Reaching the max attempts locks the key for LOGIN_LOCKOUT_MINUTES
+ * - Counters older than the lockout window are considered stale
+ */
+class LoginThrottleService {
+  /**
+   * Throw 429 when any of the keys is locked or still inside its delay
+   */
+  assertAllowed = async (keys: string[]) => {
+    const rows = await db
+      .select()
+      .from(loginThrottles)
+      .where(inArray(loginThrottles.key, keys));
+
+    const now = Date.now();
+    const retryAfterMs = Math.max(
+      0,
+      ...rows.map((row) => this._retryAfterMs(row, now)),
+    );
+
+    if (retryAfterMs > 0) {
+      throw new AppError("AUTH_LOGIN_LOCKED", {
+        retryAfter: Math.ceil(retryAfterMs / 1000),
+      });
+    }
+  };
+
+  recordFailure = async (keys: string[]) => {
+    for (const key of keys) {
+      const policy = policyFor(key);
+      const staleBefore = new Date(Date.now() - policy.lockoutMs);
+
+      const [row] = await db
+        .insert(loginThrottles)
+        .values({ key, failures: 1, lastFailureAt: new Date() })
+        .onConflictDoUpdate({
+          target: loginThrottles.key,
+          set: {
+            failures: sql`case when ${loginThrottles.lastFailureAt} < ${staleBefore} then 1 else ${loginThrottles.failures} + 1 end`,
+            lastFailureAt: new Date(),
+          },
+        })
+        .returning();
+
+      if (row && row.failures >= policy.maxAttempts) {
+        await db
+          .update(loginThrottles)
+          .set({
+            lockedUntil: new Date(Date.now() + policy.lockoutMs),
+            failures: 0,
+          })
+          .where(eq(loginThrottles.key, key));
+
+        logger.warn("Login locked after repeated failures", { key });
+      }
+    }
+  };
+
+  /**
+   * Clear a key, e.g. the account after a successful login or an admin unlock
+   */
+  clear = async (key: string) => {
+    await db.delete(loginThrottles).where(eq(loginThrottles.key, key));
+  };
+
+  private _retryAfterMs(
+    row: typeof loginThrottles.$inferSelect,
+    now: number,
+  ): number {
+    if (row.lockedUntil && row.lockedUntil.getTime() > now) {
+      return row.lockedUntil.getTime() - now;
+    }
+
+    const excess = row.failures - config.LOGIN_DELAY_AFTER;
+    if (excess <= 0) return 0;
+
+    const delayMs = Math.min(1000 * 2 ** (excess - 1), MAX_DELAY_MS);
+    return row.lastFailureAt.getTime() + delayMs - now;
+  }
+}
+
+export const loginThrottleService = new LoginThrottleService();
@@ -0,0 +1,49 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  integer,
+} from 'drizzle-orm/pg-core';
+
+import { users } from '../user/user.schema';
+
+/**
+ * TOTP enrollment, one row per user
+ * MFA is enabled once enabledAt is set (after the first code is confirmed)
+ */
+export const userMfa = pgTable('user_mfa', {
+  userId: uuid('user_id')
+    .primaryKey()
+    .references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+
+  secret: text('secret').notNull(),
+
+  enabledAt: timestamp('enabled_at'),
+
+  /** Last accepted TOTP time step, so a code cannot be replayed */
+  lastUsedStep: integer('last_used_step'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * One-time recovery codes, stored as SHA-256 hashes
+ */
+export const mfaRecoveryCodes = pgTable('mfa_recovery_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+
+  codeHash: text('code_hash').notNull(),
+
+  usedAt: timestamp('used_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
@@ -0,0 +1,293 @@
+import crypto from "crypto";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { db } from "@/infrastructure/database";
+import { userIsActive, users } from "../user/user.schema";
+import { mfaRecoveryCodes, userMfa } from "./mfa.schema";
+import { AppError } from "../../middleware/error.middleware";
+import { hashToken } from "@/utils/token";
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "@/utils/totp";
+import { config } from "../../config/env";
+import {
+  accountThrottleKey,
+  loginThrottleService,
+} from "./login-throttle.service";
+import { auditService } from "../audit/audit.service";
+import { AuditContext } from "../audit/audit.types";
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Recovery codes look like `a1b2c-3d4e5`; input is normalized so users
+ * may type them with or without the dash, in any case
+ */
+const normalizeRecoveryCode = (code: string) =>
+  code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const generateRecoveryCode = () => {
+  const raw = crypto.randomBytes(5).toString("hex");
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+export type MfaCode = {
+  code?: string;
+  recoveryCode?: string;
+};
+
+class MfaService {
+  isEnabled = async (userId: string) => {
+    const [mfa] = await db
+      .select({ enabledAt: userMfa.enabledAt })
+      .from(userMfa)
+      .where(eq(userMfa.userId, userId))
+      .limit(1);
+
+    return !!mfa?.enabledAt;
+  };
+
+  /**
+   * Start TOTP enrollment
+   * Returns the secret and otpauth URI for QR display; MFA stays disabled
+   * until confirm() receives a first valid code
+   */
+  setup = async (userId: string) => {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.id, userId), userIsActive))
+      .limit(1);
+
+    if (!user) throw new AppError("USER_NOT_FOUND");
+
+    if (await this.isEnabled(userId)) {
+      throw new AppError("MFA_ALREADY_ENABLED");
+    }
+
+    const secret = generateTotpSecret();
+
+    await db
+      .insert(userMfa)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userMfa.userId,
+        set: { secret, lastUsedStep: null, createdAt: new Date() },
+      });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.MFA_ISSUER),
+    };
+  };
+
+  /**
+   * Confirm enrollment with a first code and issue recovery codes
+   * The plain recovery codes are returned once and never stored
+   */
+  confirm = async (
+    userId: string,
+    code: string,
+    context: AuditContext = {},
+  ) => {
+    const [mfa] = await db
+      .select()
+      .from(userMfa)
+      .where(eq(userMfa.userId, userId))
+      .limit(1);
+
+    if (!mfa) throw new AppError("MFA_SETUP_NOT_STARTED");
+    if (mfa.enabledAt) throw new AppError("MFA_ALREADY_ENABLED");
+
+    const step = verifyTotp(mfa.secret, code);
+    if (step === null) throw new AppError("MFA_SETUP_CODE_INVALID");
+
+    await db
+      .update(userMfa)
+      .set({ enabledAt: new Date(), lastUsedStep: step })
+      .where(eq(userMfa.userId, userId));
+
+    const recoveryCodes = await this._replaceRecoveryCodes(userId);
+
+    await auditService.record(
+      { action: "auth.mfa_enabled", targetType: "user", targetId: userId },
+      context,
+    );
+
+    return { recoveryCodes };
+  };
+
+  /**
+   * Disable MFA after proving possession of a code
+   */
+  disable = async (
+    userId: string,
+    proof: MfaCode,
+    context: AuditContext = {},
+  ) => {
+    await this._verifyThrottled(userId, proof, context);
+
+    await db.delete(userMfa).where(eq(userMfa.userId, userId));
+    await db
+      .delete(mfaRecoveryCodes)
+      .where(eq(mfaRecoveryCodes.userId, userId));
+
+    await auditService.record(
+      {
+        action: "auth.mfa_disabled",
+        targetType: "user",
+        targetId: userId,
+        metadata: { method: proof.code ? "totp" : "recovery_code" },
+      },
+      context,
+    );
+
+    return { enabled: false };
+  };
+
+  /**
+   * Invalidate all recovery codes and issue a new set
+   */
+  regenerateRecoveryCodes = async (
+    userId: string,
+    proof: MfaCode,
+    context: AuditContext = {},
+  ) => {
+    await this._verifyThrottled(userId, proof, context);
+
+    const recoveryCodes = await this._replaceRecoveryCodes(userId);
+
+    await auditService.record(
+      {
+        action: "auth.mfa_recovery_codes_regenerated",
+        targetType: "user",
+        targetId: userId,
+        metadata: { method: proof.code ? "totp" : "recovery_code" },
+      },
+      context,
+    );
+
+    return { recoveryCodes };
+  };
+
+  /**
+   * Check a TOTP code or a recovery code for a user with MFA enabled
+   * - TOTP codes are rejected if their time step was already used
+   * - Recovery codes are consumed
+   */
+  verify = async (userId: string, proof: MfaCode) => {
+    const [mfa] = await db
+      .select()
+      .from(userMfa)
+      .where(eq(userMfa.userId, userId))
+      .limit(1);
+
+    if (!mfa?.enabledAt) throw new AppError("MFA_NOT_ENABLED");
+
+    if (proof.code) {
+      const step = verifyTotp(mfa.secret, proof.code);
+      if (step === null) throw new AppError("MFA_CODE_INVALID");
+
+      // Claim the step atomically so concurrent requests cannot replay a code
+      const [claimed] = await db
+        .update(userMfa)
+        .set({ lastUsedStep: step })
+        .where(
+          and(
+            eq(userMfa.userId, userId),
+            or(isNull(userMfa.lastUsedStep), lt(userMfa.lastUsedStep, step)),
+          ),
+        )
+        .returning({ userId: userMfa.userId });
+
+      if (!claimed) throw new AppError("MFA_CODE_INVALID");
+
+      return;
+    }
+
+    if (proof.recoveryCode) {
+      const [consumed] = await db
+        .update(mfaRecoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(mfaRecoveryCodes.userId, userId),
+            eq(
+              mfaRecoveryCodes.codeHash,
+              hashToken(normalizeRecoveryCode(proof.recoveryCode)),
+            ),
+            isNull(mfaRecoveryCodes.usedAt),
+          ),
+        )
+        .returning({ id: mfaRecoveryCodes.id });
+
+      if (!consumed) throw new AppError("MFA_RECOVERY_CODE_INVALID");
+
+      return;
+    }
+
+    throw new AppError("MFA_CODE_REQUIRED");
+  };
+
+  /**
+   * verify() for signed-in users changing their MFA settings
+   * Wrong codes count toward the same account lockout as login, so a stolen
+   * access token cannot be used to brute-force the second factor
+   */
+  private async _verifyThrottled(
+    userId: string,
+    proof: MfaCode,
+    context: AuditContext,
+  ) {
+    const [user] = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(and(eq(users.id, userId), userIsActive))
+      .limit(1);
+
+    if (!user) throw new AppError("USER_NOT_FOUND");
+
+    const throttleKey = accountThrottleKey(user.email);
+    await loginThrottleService.assertAllowed([throttleKey]);
+
+    try {
+      await this.verify(userId, proof);
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 401) {
+        await loginThrottleService.recordFailure([throttleKey]);
+        await auditService.record(
+          {
+            action: "auth.mfa_failed",
+            targetType: "user",
+            targetId: userId,
+            metadata: { method: proof.code ? "totp" : "recovery_code" },
+          },
+          context,
+        );
+      }
+      throw error;
+    }
+
+    await loginThrottleService.clear(throttleKey);
+  }
+
+  private async _replaceRecoveryCodes(userId: string) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await db
+      .delete(mfaRecoveryCodes)
+      .where(eq(mfaRecoveryCodes.userId, userId));
+
+    await db.insert(mfaRecoveryCodes).values(
+      codes.map((code) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+      })),
+    );
+
+    return codes;
+  }
+}
+
+export const mfaService = new MfaService();
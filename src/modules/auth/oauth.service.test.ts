@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveRedirect } from "./oauth.service";
+
+const ALLOWED = ["https://app.example.com/app", "http://localhost:3000"];
+
+const notAllowed = { code: "OAUTH_REDIRECT_NOT_ALLOWED" };
+
+describe("resolveRedirect", () => {
+    it("defaults to the first allowed URL", () => {
+        assert.equal(resolveRedirect(undefined, ALLOWED), "https://app.example.com/app");
+        assert.equal(resolveRedirect("", ALLOWED), "https://app.example.com/app");
+    });
+
+    it("accepts allowed URLs and paths below them", () => {
+        assert.equal(resolveRedirect("https://app.example.com/app", ALLOWED), "https://app.example.com/app");
+        assert.equal(
+            resolveRedirect("https://app.example.com/app/done?tab=1#top", ALLOWED),
+            "https://app.example.com/app/done?tab=1#top",
+        );
+        assert.equal(resolveRedirect("http://localhost:3000/anything", ALLOWED), "http://localhost:3000/anything");
+    });
+
+    it("rejects other origins", () => {
+        for (const url of [
+            "https://evil.example.com/app",
+            "http://app.example.com/app",
+            "https://app.example.com:8443/app",
+            "https://app.example.com.evil.com/app",
+            "https://app.example.com@evil.com/app",
+            "http://localhost:3001/",
+        ]) {
+            assert.throws(() => resolveRedirect(url, ALLOWED), notAllowed, url);
+        }
+    });
+
+    it("rejects paths that only share a string prefix or escape the allowed path", () => {
+        for (const url of [
+            "https://app.example.com/application",
+            "https://app.example.com/",
+            "https://app.example.com/app/../admin",
+            "https://app.example.com/app/%2e%2e/admin",
+        ]) {
+            assert.throws(() => resolveRedirect(url, ALLOWED), notAllowed, url);
+        }
+    });
+
+    it("rejects relative, scheme-relative and script URLs", () => {
+        for (const url of ["/app", "//evil.example.com/app", "javascript:alert(1)", "not a url"]) {
+            assert.throws(() => resolveRedirect(url, ALLOWED), notAllowed, url);
+        }
+    });
+});
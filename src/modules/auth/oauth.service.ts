@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import { AppError } from "../../middleware/error.middleware";
+import { config } from "../../config/env";
+import { getOidcProvider } from "@/infrastructure/oidc";
+import {
+  generateOAuthStateToken,
+  verifyOAuthStateToken,
+} from "@/utils/token";
+import { authService } from "./auth.service";
+import { AuditContext } from "../audit/audit.types";
+
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+
+const allowedRedirects = () =>
+  config.OAUTH_REDIRECT_URLS.length > 0
+    ? config.OAUTH_REDIRECT_URLS
+    : [config.APP_URL];
+
+/**
+ * Resolve where the browser goes after the callback
+ * Only URLs sharing the origin and path prefix of an allowlisted URL are
+ * accepted, so the flow cannot be turned into an open redirect
+ */
+export const resolveRedirect = (
+  redirectTo?: string,
+  allowed: string[] = allowedRedirects(),
+): string => {
+  if (!redirectTo) return allowed[0]!;
+
+  let target: URL;
+  try {
+    target = new URL(redirectTo);
+  } catch {
+    throw new AppError("OAUTH_REDIRECT_NOT_ALLOWED");
+  }
+
+  const isAllowed = allowed.some((url) => {
+    const base = new URL(url);
+    const basePath = base.pathname.endsWith("/")
+      ? base.pathname
+      : `${base.pathname}/`;
+
+    return (
+      target.origin === base.origin &&
+      (target.pathname === base.pathname ||
+        target.pathname.startsWith(basePath))
+    );
+  });
+
+  if (!isAllowed) throw new AppError("OAUTH_REDIRECT_NOT_ALLOWED");
+
+  return target.toString();
+};
+
+/**
+ * OAuth Service
+ *
+ * Architecture Note:
+ * - Server-side authorization-code flow with PKCE for browser apps
+ * - state, nonce and the PKCE verifier travel in a signed, httpOnly,
+ *   10-minute cookie; the callback must present the same state (CSRF) and
+ *   the ID token must carry the same nonce (replay)
+ */
+class OAuthService {
+  /**
+   * Start the flow
+   * @returns the provider's authorization URL and the state cookie value
+   */
+  start = async (providerName: string, redirectTo?: string, device?: string) => {
+    const provider = getOidcProvider(providerName);
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    const codeChallenge = crypto
+      .createHash("sha256")
+      .update(codeVerifier)
+      .digest("base64url");
+
+    const url = await provider.buildAuthorizationUrl({
+      state,
+      nonce,
+      codeChallenge,
+    });
+
+    const stateToken = generateOAuthStateToken({
+      provider: provider.name,
+      state,
+      nonce,
+      codeVerifier,
+      redirectTo: resolveRedirect(redirectTo),
+      device: device || "Browser",
+    });
+
+    return { url, stateToken };
+  };
+
+  /**
+   * Read the state cookie; returns null when it is missing, expired or forged
+   */
+  readState = (stateToken?: string) => {
+    if (!stateToken) return null;
+
+    try {
+      return verifyOAuthStateToken(stateToken);
+    } catch (error) {
+      return null;
+    }
+  };
+
+  /**
+   * Finish the flow: check state, exchange the code and log the user in
+   */
+  callback = async (
+    providerName: string,
+    query: { code?: string; state?: string; error?: string },
+    stateToken: string | undefined,
+    context: AuditContext = {},
+  ) => {
+    const saved = this.readState(stateToken);
+
+    if (
+      !saved ||
+      saved.provider !== providerName ||
+      !query.state ||
+      !crypto.timingSafeEqual(
+        crypto.createHash("sha256").update(query.state).digest(),
+        crypto.createHash("sha256").update(saved.state).digest(),
+      )
+    ) {
+      throw new AppError("OAUTH_STATE_INVALID");
+    }
+
+    if (query.error || !query.code) {
+      throw new AppError("OAUTH_ACCESS_DENIED");
+    }
+
+    const provider = getOidcProvider(providerName);
+    const idToken = await provider.exchangeCode(query.code, saved.codeVerifier);
+
+    const result = await authService.loginWithOidc(
+      providerName,
+      idToken,
+      saved.device,
+      context,
+      saved.nonce,
+    );
+
+    return { result, redirectTo: saved.redirectTo };
+  };
+
+  defaultRedirect = () => allowedRedirects()[0]!;
+}
+
+export const oauthService = new OAuthService();
@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { and, eq, isNull } from "drizzle-orm";
+import { db, withTransaction } from "@/infrastructure/database";
+import { mailer } from "@/infrastructure/mail";
+import { userIsActive, users } from "../user/user.schema";
+import { passwordResetTokens, refreshTokens } from "./user_tokens.schema";
+import { AppError } from "../../middleware/error.middleware";
+import { tokenRevocationService } from "./token-revocation.service";
+import { logger } from "../../middleware/logger.middleware";
+import { hashToken } from "@/utils/token";
+import { escapeHtml } from "@/utils/html";
+import { config } from "../../config/env";
+import { auditService } from "../audit/audit.service";
+import { AuditContext } from "../audit/audit.types";
+
+class PasswordResetService {
+  /**
+   * Email a password reset link to a local-auth user
+   * Always succeeds so the endpoint cannot be used to discover accounts
+   */
+  forgot = async (email: string) => {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), userIsActive))
+      .limit(1);
+
+    if (!user || !user.password) {
+      return { sent: true };
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+
+    // Only the latest link works
+    await db
+      .delete(passwordResetTokens)
+      .where(
+        and(
+          eq(passwordResetTokens.userId, user.id),
+          isNull(passwordResetTokens.usedAt),
+        ),
+      );
+
+    await db.insert(passwordResetTokens).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(
+        Date.now() + config.PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+      ),
+    });
+
+    const link = `${config.APP_URL}/reset-password?token=${token}`;
+
+    try {
+      await mailer.send({
+        to: user.email,
+        subject: "Reset your password",
+        text: `Hi ${user.name},\n\nReset your password by opening this link:\n${link}\n\nThe link expires in ${config.PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for a reset, ignore this email.`,
+        html: `<p>Hi ${escapeHtml(user.name)},</p><p>Reset your password by opening <a href="${link}">this link</a>.</p><p>The link expires in ${config.PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for a reset, ignore this email.</p>`,
+      });
+    } catch (error) {
+      logger.error("Failed to send password reset email", {
+        userId: user.id,
+        error,
+      });
+    }
+
+    return { sent: true };
+  };
+
+  /**
+   * Consume a reset token and set a new password
+   * - Every session and access token of the user is revoked
+   * - Receiving the emailed link also proves ownership of the address
+   */
+  reset = async (
+    token: string,
+    password: string,
+    context: AuditContext = {},
+  ) => {
+    const [storedToken] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, hashToken(token)))
+      .limit(1);
+
+    if (!storedToken || storedToken.usedAt) {
+      throw new AppError("PASSWORD_RESET_TOKEN_INVALID");
+    }
+
+    if (new Date() > storedToken.expiresAt) {
+      throw new AppError("PASSWORD_RESET_TOKEN_EXPIRED");
+    }
+
+    const now = new Date();
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // The token is only spent if the password change and the revocation commit
+    const { userId, tokenVersion } = await withTransaction(async (tx) => {
+      const [claimed] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(
+          and(
+            eq(passwordResetTokens.id, storedToken.id),
+            isNull(passwordResetTokens.usedAt),
+          ),
+        )
+        .returning({ id: passwordResetTokens.id });
+
+      if (!claimed) {
+        throw new AppError("PASSWORD_RESET_TOKEN_INVALID");
+      }
+
+      const [user] = await tx
+        .select()
+        .from(users)
+        .where(and(eq(users.id, storedToken.userId), userIsActive))
+        .limit(1);
+
+      if (!user) throw new AppError("PASSWORD_RESET_TOKEN_INVALID");
+
+      await tx
+        .update(users)
+        .set({
+          password: hashedPassword,
+          emailVerifiedAt: user.emailVerifiedAt ?? now,
+          updatedAt: now,
+        })
+        .where(eq(users.id, user.id));
+
+      await tx
+        .update(refreshTokens)
+        .set({ revoked: true })
+        .where(
+          and(
+            eq(refreshTokens.userId, user.id),
+            eq(refreshTokens.revoked, false),
+          ),
+        );
+      const tokenVersion = await tokenRevocationService.bumpVersion(user.id, tx);
+
+      return { userId: user.id, tokenVersion };
+    });
+
+    tokenRevocationService.cacheVersion(userId, tokenVersion);
+
+    await auditService.record(
+      {
+        action: "auth.password_reset",
+        actorId: userId,
+        targetType: "user",
+        targetId: userId,
+      },
+      context,
+    );
+
+    return { reset: true };
+  };
+}
+
+export const passwordResetService = new PasswordResetService();
@@ -0,0 +1,12 @@
+import { pgTable, varchar, timestamp } from 'drizzle-orm/pg-core';
+
+/**
+ * Revoked access tokens, keyed by `jti:<token id>` or `sid:<session id>`
+ * Entries only need to outlive the access tokens they block, so they
+ * expire with the access token lifetime and are then deleted
+ */
+export const accessTokenDenylist = pgTable('access_token_denylist', {
+  key: varchar('key', { length: 100 }).primaryKey(),
+
+  expiresAt: timestamp('expires_at').notNull(),
+});
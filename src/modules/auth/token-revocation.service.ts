@@ -0,0 +1,149 @@
+import { and, eq, gt, lte, sql } from "drizzle-orm";
+import { DbExecutor, db, isTransaction } from "@/infrastructure/database";
+import { userIsActive, users } from "../user/user.schema";
+import { accessTokenDenylist } from "./token-denylist.schema";
+import { AppError } from "../../middleware/error.middleware";
+import { config } from "../../config/env";
+import { ACCESS_TOKEN_TTL_SECONDS } from "@/utils/token";
+
+/**
+ * Token Revocation Service
+ *
+ * Architecture Note:
+ * - Access tokens carry the user's tokenVersion (ver) and a jti; a token is
+ *   rejected when its version is behind the user's or its jti or session id
+ *   is on the denylist
+ * - Versions and the denylist are cached in memory for
+ *   TOKEN_REVOCATION_CACHE_SECONDS, so authentication costs at most one query
+ *   per user and one denylist reload per interval. Revocations made by this
+ *   instance apply at once; other instances see them after the interval
+ */
+class TokenRevocationService {
+  private versions = new Map<string, { version: number | null; cachedAt: number }>();
+  private denylist = new Set<string>();
+  private denylistLoadedAt = 0;
+
+  private get cacheMs() {
+    return config.TOKEN_REVOCATION_CACHE_SECONDS * 1000;
+  }
+
+  /**
+   * Throw 401 if the access token was revoked or its user no longer exists
+   */
+  assertActive = async (token: {
+    id: string;
+    jti?: string;
+    sid?: string;
+    ver?: number;
+  }) => {
+    const version = await this.getTokenVersion(token.id);
+    if (version === null || (token.ver ?? 0) !== version) {
+      throw new AppError("AUTH_ACCESS_TOKEN_REVOKED");
+    }
+
+    await this._loadDenylist();
+    if (
+      (token.jti && this.denylist.has(`jti:${token.jti}`)) ||
+      (token.sid && this.denylist.has(`sid:${token.sid}`))
+    ) {
+      throw new AppError("AUTH_ACCESS_TOKEN_REVOKED");
+    }
+  };
+
+  /**
+   * Current token version of a user, null for missing or deleted users
+   */
+  getTokenVersion = async (userId: string): Promise<number | null> => {
+    const cached = this.versions.get(userId);
+    if (cached && Date.now() - cached.cachedAt < this.cacheMs) {
+      return cached.version;
+    }
+
+    const [user] = await db
+      .select({ tokenVersion: users.tokenVersion })
+      .from(users)
+      .where(and(eq(users.id, userId), userIsActive))
+      .limit(1);
+
+    const version = user ? user.tokenVersion : null;
+    this.cacheVersion(userId, version);
+
+    return version;
+  };
+
+  /**
+   * Invalidate every access token of a user issued so far
+   * Returns the new version, null for missing or deleted users. Inside a
+   * transaction the cache is left alone: pass the result to cacheVersion
+   * once the transaction has committed, so a rollback cannot cache a version
+   * the database never stored
+   */
+  bumpVersion = async (
+    userId: string,
+    executor: DbExecutor = db,
+  ): Promise<number | null> => {
+    const [user] = await executor
+      .update(users)
+      .set({ tokenVersion: sql`${users.tokenVersion} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ tokenVersion: users.tokenVersion, deletedAt: users.deletedAt });
+
+    const version = user && !user.deletedAt ? user.tokenVersion : null;
+    if (!isTransaction(executor)) this.cacheVersion(userId, version);
+
+    return version;
+  };
+
+  /**
+   * Apply a committed version change to this instance at once, instead of
+   * after the cache interval
+   */
+  cacheVersion = (userId: string, version: number | null) => {
+    this.versions.set(userId, { version, cachedAt: Date.now() });
+  };
+
+  /**
+   * Reject a single access token until it would have expired anyway
+   */
+  denyToken = (jti: string) => this._deny(`jti:${jti}`);
+
+  /**
+   * Reject every access token issued for a session (token family)
+   */
+  denySession = (sessionId: string) => this._deny(`sid:${sessionId}`);
+
+  private async _deny(key: string) {
+    const expiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000);
+
+    await db
+      .insert(accessTokenDenylist)
+      .values({ key, expiresAt })
+      .onConflictDoUpdate({ target: accessTokenDenylist.key, set: { expiresAt } });
+
+    this.denylist.add(key);
+  }
+
+  /**
+   * Reload the whole denylist; it only holds entries younger than the
+   * access token lifetime, so it stays small. Expired rows are cleaned up here.
+   */
+  private async _loadDenylist() {
+    if (Date.now() - this.denylistLoadedAt < this.cacheMs) return;
+
+    const now = new Date();
+
+    await db
+      .delete(accessTokenDenylist)
+      .where(lte(accessTokenDenylist.expiresAt, now));
+
+    const rows = await db
+      .select({ key: accessTokenDenylist.key })
+      .from(accessTokenDenylist)
+      .where(gt(accessTokenDenylist.expiresAt, now));
+
+    this.denylist = new Set(rows.map((row) => row.key));
+    this.denylistLoadedAt = Date.now();
+  }
+}
+
+export const tokenRevocationService = new TokenRevocationService();
@@ -17,6 +17,12 @@ export const refreshTokens = pgTable('refresh_tokens', {
       onDelete: 'cascade',
     }),
 
+  /**
+   * Lineage id shared by every token rotated from the same login.
+   * A family is what users see as a session.
+   */
+  familyId: uuid('family_id').notNull(),
+
   tokenHash: text('token_hash').notNull(),
 
   device: text('device'), 
@@ -25,6 +31,52 @@ export const refreshTokens = pgTable('refresh_tokens', {
 
   revoked: boolean('revoked').default(false).notNull(),
 
+  /** Set when the token is rotated; presenting it again means it was replayed */
+  usedAt: timestamp('used_at'),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+/**
+ * Single-use email verification tokens
+ * Only the SHA-256 hash of the emailed token is stored
+ */
+export const emailVerificationTokens = pgTable('email_verification_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+
+  tokenHash: text('token_hash').notNull().unique(),
+
+  expiresAt: timestamp('expires_at').notNull(),
+
+  usedAt: timestamp('used_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Single-use password reset tokens
+ * Only the SHA-256 hash of the emailed token is stored
+ */
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+
+  tokenHash: text('token_hash').notNull().unique(),
+
+  expiresAt: timestamp('expires_at').notNull(),
+
+  usedAt: timestamp('used_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { healthService } from './health.service';
+import { asyncHandler } from '../../middleware/error.middleware';
+
+/**
+ * Health Controller
+ *
+ * Architecture Note:
+ * - Probe responses are never cached
+ */
+class HealthController {
+    /**
+     * Liveness probe
+     * GET /health/live (and the legacy GET /health)
+     */
+    live = (_req: Request, res: Response) => {
+        res.setHeader('Cache-Control', 'no-store');
+        res.status(200).json({
+            success: true,
+            message: 'Server is alive',
+            data: { status: 'alive', uptime: process.uptime(), timestamp: new Date().toISOString() },
+        });
+    };
+
+    /**
+     * Readiness probe
+     * GET /health/ready
+     * 503 carries the same report so operators can see which check failed
+     */
+    ready = asyncHandler(async (_req: Request, res: Response) => {
+        const report = await healthService.readiness();
+        const ready = report.status === 'ready';
+
+        res.setHeader('Cache-Control', 'no-store');
+        res.status(ready ? 200 : 503).json({
+            success: ready,
+            message: ready ? 'Server is ready' : 'Server is not ready',
+            data: report,
+        });
+    });
+}
+
+// Export singleton instance
+export const healthController = new HealthController();
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { ReadinessReport } from './health.types';
+
+/**
+ * Response schemas for the OpenAPI document
+ */
+export const livenessSchema = z.object({
+    status: z.literal('alive'),
+    uptime: z.number().describe('Process uptime in seconds'),
+    timestamp: z.string().datetime(),
+});
+
+const checkResultSchema = z.object({
+    status: z.enum(['up', 'down']),
+    latencyMs: z.number().optional(),
+});
+
+export const readinessSchema: z.ZodType<ReadinessReport> = z.object({
+    status: z.enum(['ready', 'not_ready']),
+    draining: z.boolean().describe('Shutdown has started'),
+    checks: z.object({
+        database: checkResultSchema,
+    }),
+});
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { healthController } from './health.controller';
+import { apiDoc } from '../../infrastructure/openapi';
+import { livenessSchema, readinessSchema } from './health.openapi';
+
+/**
+ * Health routes
+ *
+ * Architecture Note:
+ * - Routes are mounted at /health in the main app, outside /api
+ * - Public and unauthenticated, for orchestrators and load balancers
+ */
+const router = Router();
+
+const livenessDoc = apiDoc({
+    summary: 'Liveness probe',
+    description: 'Succeeds while the process can serve requests; does not check dependencies.',
+    responses: { 200: { description: 'Alive', schema: livenessSchema } },
+});
+
+/**
+ * @route   GET /health
+ * @desc    Liveness probe (kept for existing monitors, same as /health/live)
+ * @access  Public
+ */
+router.get('/', livenessDoc, healthController.live);
+
+/**
+ * @route   GET /health/live
+ * @desc    Liveness probe
+ * @access  Public
+ */
+router.get('/live', livenessDoc, healthController.live);
+
+/**
+ * @route   GET /health/ready
+ * @desc    Readiness probe: database reachable and not shutting down
+ * @access  Public
+ */
+router.get(
+    '/ready',
+    apiDoc({
+        summary: 'Readiness probe',
+        description: 'Checks the database (READINESS_DB_TIMEOUT_MS) and fails with 503 once shutdown starts.',
+        responses: {
+            200: { description: 'Ready', schema: readinessSchema },
+            503: { description: 'Not ready; the report shows why', schema: readinessSchema },
+        },
+    }),
+    healthController.ready
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import { checkConnection } from '../../infrastructure/database';
+import { config } from '../../config/env';
+import { lifecycle } from '../../utils/lifecycle';
+import { logger } from '../../middleware/logger.middleware';
+import { CheckResult, ReadinessReport } from './health.types';
+
+/**
+ * Health Service
+ *
+ * Architecture Note:
+ * - Liveness only says the process can serve requests; it never checks
+ *   dependencies, so a database outage does not get every instance restarted
+ * - Readiness checks the dependencies needed to serve traffic and fails as
+ *   soon as shutdown starts, so load balancers stop routing here while the
+ *   server drains
+ */
+class HealthService {
+    async readiness(): Promise<ReadinessReport> {
+        const database = await this._checkDatabase();
+        const draining = lifecycle.draining;
+
+        return {
+            status: !draining && database.status === 'up' ? 'ready' : 'not_ready',
+            draining,
+            checks: { database },
+        };
+    }
+
+    private async _checkDatabase(): Promise<CheckResult> {
+        try {
+            const latencyMs = await checkConnection(config.READINESS_DB_TIMEOUT_MS);
+            return { status: 'up', latencyMs };
+        } catch (error) {
+            // The probe is public: the reason (hosts, credentials in messages) only goes to the logs
+            logger.warn('Readiness check: database is down', { error });
+            return { status: 'down' };
+        }
+    }
+}
+
+// Export singleton instance
+export const healthService = new HealthService();
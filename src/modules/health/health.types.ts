@@ -0,0 +1,16 @@
+export type CheckResult = {
+    status: 'up' | 'down';
+    latencyMs?: number;
+};
+
+/**
+ * Readiness of this instance to receive traffic
+ * draining is set once shutdown has started
+ */
+export type ReadinessReport = {
+    status: 'ready' | 'not_ready';
+    draining: boolean;
+    checks: {
+        database: CheckResult;
+    };
+};
@@ -0,0 +1,37 @@
+/**
+ * Permission catalog
+ * Permission names follow the `resource:action` convention and are
+ * embedded in access tokens, so keep them short
+ */
+export const PERMISSIONS = {
+    'users:create': 'Create users on behalf of others',
+    'users:read': 'List and view any user',
+    'users:update': 'Update any user',
+    'users:delete': 'Delete any user',
+    'users:restore': 'List and restore deleted users',
+    'users:unlock': 'Clear login lockouts of any user',
+    'roles:read': 'View roles and role assignments',
+    'roles:assign': 'Assign and revoke user roles',
+    'audit:read': 'Query the audit log',
+} as const;
+
+export type PermissionName = keyof typeof PERMISSIONS;
+
+export const ADMIN_ROLE = 'admin';
+export const DEFAULT_USER_ROLE = 'user';
+
+/**
+ * Default role set created by the seed script
+ * - admin: every permission
+ * - user: none; users act on their own resources through ownership checks
+ */
+export const DEFAULT_ROLES: Record<string, { description: string; permissions: PermissionName[] }> = {
+    [ADMIN_ROLE]: {
+        description: 'Full administrative access',
+        permissions: Object.keys(PERMISSIONS) as PermissionName[],
+    },
+    [DEFAULT_USER_ROLE]: {
+        description: 'Regular user',
+        permissions: [],
+    },
+};
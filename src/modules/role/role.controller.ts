@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { roleService } from './role.service';
+import { asyncHandler } from '../../middleware/error.middleware';
+import { t } from '../../infrastructure/i18n';
+import { auditContext } from '../audit/audit.context';
+
+/**
+ * Role Controller
+ *
+ * Architecture Note:
+ * - Admin-facing endpoints for inspecting roles and managing assignments
+ * - Authorization is enforced at route level by requirePermission
+ */
+class RoleController {
+    /**
+     * Get all roles with their permissions
+     * GET /api/roles
+     */
+    getAll = asyncHandler(async (_req: Request, res: Response) => {
+        const roles = await roleService.getAll();
+
+        res.status(200).json({
+            success: true,
+            message: t('role.list_retrieved'),
+            data: roles,
+        });
+    });
+
+    /**
+     * Get roles of a user
+     * GET /api/roles/users/:userId
+     */
+    getUserRoles = asyncHandler(async (req: Request, res: Response) => {
+        const { userId } = req.params as { userId: string };
+        const access = await roleService.getUserRoles(userId);
+
+        res.status(200).json({
+            success: true,
+            message: t('role.user_roles_retrieved'),
+            data: access,
+        });
+    });
+
+    /**
+     * Assign a role to a user
+     * POST /api/roles/users/:userId
+     */
+    assign = asyncHandler(async (req: Request, res: Response) => {
+        const { userId } = req.params as { userId: string };
+        const access = await roleService.assignRole(userId, req.body.role, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t('role.assigned'),
+            data: access,
+        });
+    });
+
+    /**
+     * Revoke a role from a user
+     * DELETE /api/roles/users/:userId/:role
+     */
+    revoke = asyncHandler(async (req: Request, res: Response) => {
+        const { userId, role } = req.params as { userId: string; role: string };
+        const access = await roleService.revokeRole(userId, role, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t('role.revoked'),
+            data: access,
+        });
+    });
+}
+
+// Export singleton instance
+export const roleController = new RoleController();
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { RoleWithPermissions, UserAccess } from './role.types';
+
+/**
+ * Response schemas for the OpenAPI document
+ */
+export const roleWithPermissionsSchema: z.ZodType<RoleWithPermissions> = z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    description: z.string().nullable(),
+    createdAt: z.date(),
+    permissions: z.array(z.string()),
+});
+
+export const userAccessSchema: z.ZodType<UserAccess> = z.object({
+    roles: z.array(z.string()),
+    permissions: z.array(z.string()),
+});
@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { roleController } from './role.controller';
+import { validate } from '../../middleware/validation.middleware';
+import { authenticate, requirePermission, requireVerifiedEmail } from '../../middleware/auth.middleware';
+import { apiDoc } from '../../infrastructure/openapi';
+import { assignRoleSchema, revokeRoleParamsSchema, roleUserIdSchema } from './role.validation';
+import { roleWithPermissionsSchema, userAccessSchema } from './role.openapi';
+
+/**
+ * Role routes
+ *
+ * Architecture Note:
+ * - Routes are mounted at /api/roles in the main app
+ * - Every route requires an access token carrying the listed permission
+ * - Role changes take effect on the user's next token refresh
+ */
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/roles
+ * @desc    List roles and their permissions
+ * @access  Private (roles:read)
+ */
+router.get(
+    '/',
+    apiDoc({
+        summary: 'List roles and their permissions',
+        responses: { 200: { description: 'All roles', schema: z.array(roleWithPermissionsSchema) } },
+    }),
+    requirePermission('roles:read'),
+    roleController.getAll
+);
+
+/**
+ * @route   GET /api/roles/users/:userId
+ * @desc    Get roles of a user
+ * @access  Private (roles:read)
+ */
+router.get(
+    '/users/:userId',
+    apiDoc({
+        summary: 'Get roles of a user',
+        responses: { 200: { description: 'Roles and effective permissions of the user', schema: userAccessSchema } },
+    }),
+    requirePermission('roles:read'),
+    validate({ params: roleUserIdSchema }),
+    roleController.getUserRoles
+);
+
+/**
+ * @route   POST /api/roles/users/:userId
+ * @desc    Assign a role to a user
+ * @access  Private (roles:assign)
+ */
+router.post(
+    '/users/:userId',
+    apiDoc({
+        summary: 'Assign a role to a user',
+        responses: { 200: { description: 'Roles and effective permissions after the change', schema: userAccessSchema } },
+    }),
+    requireVerifiedEmail,
+    requirePermission('roles:assign'),
+    validate({ params: roleUserIdSchema, body: assignRoleSchema }),
+    roleController.assign
+);
+
+/**
+ * @route   DELETE /api/roles/users/:userId/:role
+ * @desc    Revoke a role from a user
+ * @access  Private (roles:assign)
+ */
+router.delete(
+    '/users/:userId/:role',
+    apiDoc({
+        summary: 'Revoke a role from a user',
+        responses: { 200: { description: 'Roles and effective permissions after the change', schema: userAccessSchema } },
+    }),
+    requireVerifiedEmail,
+    requirePermission('roles:assign'),
+    validate({ params: revokeRoleParamsSchema }),
+    roleController.revoke
+);
+
+export default router;
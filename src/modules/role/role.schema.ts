@@ -0,0 +1,46 @@
+import { pgTable, uuid, varchar, text, timestamp, primaryKey } from 'drizzle-orm/pg-core';
+import { users } from '../user/user.schema';
+
+export const roles = pgTable('roles', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    name: varchar('name', { length: 50 }).notNull().unique(),
+    description: text('description'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const permissions = pgTable('permissions', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    name: varchar('name', { length: 100 }).notNull().unique(),
+    description: text('description'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const rolePermissions = pgTable(
+    'role_permissions',
+    {
+        roleId: uuid('role_id')
+            .notNull()
+            .references(() => roles.id, { onDelete: 'cascade' }),
+        permissionId: uuid('permission_id')
+            .notNull()
+            .references(() => permissions.id, { onDelete: 'cascade' }),
+    },
+    (table) => [primaryKey({ columns: [table.roleId, table.permissionId] })]
+);
+
+export const userRoles = pgTable(
+    'user_roles',
+    {
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        roleId: uuid('role_id')
+            .notNull()
+            .references(() => roles.id, { onDelete: 'cascade' }),
+        assignedAt: timestamp('assigned_at').defaultNow().notNull(),
+    },
+    (table) => [primaryKey({ columns: [table.userId, table.roleId] })]
+);
+
+export type Role = typeof roles.$inferSelect;
+export type Permission = typeof permissions.$inferSelect;
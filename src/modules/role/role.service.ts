@@ -0,0 +1,218 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { DbExecutor, db } from '../../infrastructure/database';
+import { userIsActive, users } from '../user/user.schema';
+import { permissions, rolePermissions, roles, userRoles } from './role.schema';
+import { ADMIN_ROLE, DEFAULT_ROLES, DEFAULT_USER_ROLE, PERMISSIONS } from './role.constants';
+import { RoleWithPermissions, UserAccess } from './role.types';
+import { AppError } from '../../middleware/error.middleware';
+import { logger } from '../../middleware/logger.middleware';
+import { auditService } from '../audit/audit.service';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * Role Service
+ *
+ * Architecture Note:
+ * - Owns roles, permissions and their assignment to users
+ * - Access (roles + permissions) is resolved here when tokens are issued,
+ *   so authorization checks on requests never hit the database
+ */
+class RoleService {
+    /**
+     * Resolve the roles and effective permissions of a user
+     */
+    async getUserAccess(userId: string): Promise<UserAccess> {
+        const assignedRoles = await db
+            .select({ name: roles.name })
+            .from(userRoles)
+            .innerJoin(roles, eq(userRoles.roleId, roles.id))
+            .where(eq(userRoles.userId, userId));
+
+        const grantedPermissions = await db
+            .selectDistinct({ name: permissions.name })
+            .from(userRoles)
+            .innerJoin(rolePermissions, eq(userRoles.roleId, rolePermissions.roleId))
+            .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
+            .where(eq(userRoles.userId, userId));
+
+        return {
+            roles: assignedRoles.map((role) => role.name),
+            permissions: grantedPermissions.map((permission) => permission.name),
+        };
+    }
+
+    /**
+     * Give a newly created user the default role
+     * - Logs a warning instead of failing when roles have not been seeded
+     */
+    async assignDefaultRole(userId: string, executor: DbExecutor = db): Promise<void> {
+        const [role] = await executor
+            .select()
+            .from(roles)
+            .where(eq(roles.name, DEFAULT_USER_ROLE))
+            .limit(1);
+
+        if (!role) {
+            logger.warn(`Default role "${DEFAULT_USER_ROLE}" not found, run db:seed`);
+            return;
+        }
+
+        await executor.insert(userRoles).values({ userId, roleId: role.id }).onConflictDoNothing();
+    }
+
+    /**
+     * List all roles with their permissions
+     */
+    async getAll(): Promise<RoleWithPermissions[]> {
+        const allRoles = await db.select().from(roles);
+
+        const grants = await db
+            .select({ roleId: rolePermissions.roleId, name: permissions.name })
+            .from(rolePermissions)
+            .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id));
+
+        return allRoles.map((role) => ({
+            ...role,
+            permissions: grants
+                .filter((grant) => grant.roleId === role.id)
+                .map((grant) => grant.name),
+        }));
+    }
+
+    /**
+     * Get the roles assigned to a user
+     * - Throws 404 if user not found
+     */
+    async getUserRoles(userId: string): Promise<UserAccess> {
+        await this._findUser(userId);
+        return this.getUserAccess(userId);
+    }
+
+    /**
+     * Assign a role to a user
+     * - Throws 404 if user or role not found
+     * - Assigning an already assigned role is a no-op
+     */
+    async assignRole(userId: string, roleName: string, context: AuditContext = {}): Promise<UserAccess> {
+        await this._findUser(userId);
+        const role = await this._findRole(roleName);
+
+        const [assigned] = await db
+            .insert(userRoles)
+            .values({ userId, roleId: role.id })
+            .onConflictDoNothing()
+            .returning();
+
+        if (assigned) {
+            await auditService.record(
+                { action: 'role.assign', targetType: 'user', targetId: userId, metadata: { role: role.name } },
+                context
+            );
+        }
+
+        return this.getUserAccess(userId);
+    }
+
+    /**
+     * Revoke a role from a user
+     * - Throws 404 if user, role or assignment not found
+     * - Refuses to remove the last admin
+     */
+    async revokeRole(userId: string, roleName: string, context: AuditContext = {}): Promise<UserAccess> {
+        await this._findUser(userId);
+        const role = await this._findRole(roleName);
+
+        if (role.name === ADMIN_ROLE) {
+            const admins = await db
+                .select({ userId: userRoles.userId })
+                .from(userRoles)
+                .where(eq(userRoles.roleId, role.id));
+
+            if (admins.length === 1 && admins[0]?.userId === userId) {
+                throw new AppError('ROLE_LAST_ADMIN');
+            }
+        }
+
+        const [revoked] = await db
+            .delete(userRoles)
+            .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, role.id)))
+            .returning();
+
+        if (!revoked) {
+            throw new AppError('ROLE_NOT_ASSIGNED');
+        }
+
+        await auditService.record(
+            { action: 'role.revoke', targetType: 'user', targetId: userId, metadata: { role: role.name } },
+            context
+        );
+
+        return this.getUserAccess(userId);
+    }
+
+    /**
+     * Create the permission catalog and default roles
+     * - Idempotent, safe to run on every deploy
+     * - Grants missing default permissions but never removes existing grants
+     */
+    async seedDefaults(): Promise<void> {
+        await db
+            .insert(permissions)
+            .values(
+                Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description }))
+            )
+            .onConflictDoNothing({ target: permissions.name });
+
+        await db
+            .insert(roles)
+            .values(
+                Object.entries(DEFAULT_ROLES).map(([name, role]) => ({
+                    name,
+                    description: role.description,
+                }))
+            )
+            .onConflictDoNothing({ target: roles.name });
+
+        for (const [roleName, role] of Object.entries(DEFAULT_ROLES)) {
+            if (role.permissions.length === 0) continue;
+
+            const { id: roleId } = await this._findRole(roleName);
+            const granted = await db
+                .select({ id: permissions.id })
+                .from(permissions)
+                .where(inArray(permissions.name, role.permissions));
+
+            await db
+                .insert(rolePermissions)
+                .values(granted.map((permission) => ({ roleId, permissionId: permission.id })))
+                .onConflictDoNothing();
+        }
+    }
+
+    private async _findUser(userId: string) {
+        const [user] = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(and(eq(users.id, userId), userIsActive))
+            .limit(1);
+
+        if (!user) {
+            throw new AppError('USER_NOT_FOUND');
+        }
+
+        return user;
+    }
+
+    private async _findRole(name: string) {
+        const [role] = await db.select().from(roles).where(eq(roles.name, name)).limit(1);
+
+        if (!role) {
+            throw new AppError('ROLE_NOT_FOUND', { role: name });
+        }
+
+        return role;
+    }
+}
+
+// Export singleton instance
+export const roleService = new RoleService();
@@ -0,0 +1,17 @@
+import { Role } from './role.schema';
+
+/**
+ * Role with the names of the permissions it grants
+ */
+export type RoleWithPermissions = Role & {
+    permissions: string[];
+};
+
+/**
+ * Roles and effective permissions of a user
+ * Embedded as claims in access tokens
+ */
+export type UserAccess = {
+    roles: string[];
+    permissions: string[];
+};
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for assigning a role to a user
+ */
+export const assignRoleSchema = z.object({
+    role: z.string().min(1).max(50),
+});
+
+/**
+ * Validation schema for the user ID parameter of role routes
+ */
+export const roleUserIdSchema = z.object({
+    userId: z.string().uuid(),
+});
+
+/**
+ * Validation schema for revoking a role from a user
+ */
+export const revokeRoleParamsSchema = roleUserIdSchema.extend({
+    role: z.string().min(1).max(50),
+});
+
+export type AssignRoleInput = z.infer<typeof assignRoleSchema>;
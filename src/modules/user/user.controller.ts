@@ -1,6 +1,20 @@
 import { Request, Response } from 'express';
 import { userService } from './user.service';
-import { asyncHandler } from '../../middleware/error.middleware';
+import { AppError, asyncHandler } from '../../middleware/error.middleware';
+import { ListUsersQuery } from './user.types';
+import { auditContext } from '../audit/audit.context';
+import { t } from '../../infrastructure/i18n';
+
+/**
+ * Return the given URL (path + query) with some query params replaced
+ */
+const withQuery = (url: string, params: Record<string, string>): string => {
+    const parsed = new URL(url, 'http://localhost');
+    for (const [key, value] of Object.entries(params)) {
+        parsed.searchParams.set(key, value);
+    }
+    return `${parsed.pathname}${parsed.search}`;
+};
 
 /**
  * User Controller
@@ -18,26 +32,44 @@ class UserController {
      */
     create = asyncHandler(async (req: Request, res: Response) => {
         // Request body is already validated by middleware
-        const user = await userService.create(req.body);
+        const user = await userService.create(req.body, auditContext(req));
 
         res.status(201).json({
             success: true,
-            message: 'User created successfully',
+            message: t('user.created'),
             data: user,
         });
     });
 
     /**
-     * Get all users
+     * List users
      * GET /api/users
      */
-    getAll = asyncHandler(async (_req: Request, res: Response) => {
-        const users = await userService.getAll();
+    getAll = asyncHandler(async (req: Request, res: Response) => {
+        // Request query is already validated and coerced by middleware
+        const query = req.query as unknown as ListUsersQuery;
+
+        if (query.status === 'deleted' && !req.user!.permissions.includes('users:restore')) {
+            throw new AppError('AUTH_INSUFFICIENT_PERMISSIONS');
+        }
+
+        const { items, pageInfo } = await userService.getAll(query);
+
+        const nextParams: Record<string, string> = pageInfo.page
+            ? { page: String(pageInfo.page + 1) }
+            : { cursor: pageInfo.nextCursor ?? '' };
 
         res.status(200).json({
             success: true,
-            message: 'Users retrieved successfully',
-            data: users,
+            message: t('user.list_retrieved'),
+            data: items,
+            meta: {
+                pagination: pageInfo,
+                links: {
+                    self: req.originalUrl,
+                    next: pageInfo.hasMore ? withQuery(req.originalUrl, nextParams) : null,
+                },
+            },
         });
     });
 
@@ -52,7 +84,7 @@ class UserController {
 
         res.status(200).json({
             success: true,
-            message: 'User retrieved successfully',
+            message: t('user.retrieved'),
             data: user,
         });
     });
@@ -64,11 +96,11 @@ class UserController {
     update = asyncHandler(async (req: Request, res: Response) => {
         // Request params and body are already validated by middleware
         const { id } = req.params as { id: string };
-        const user = await userService.update(id, req.body);
+        const user = await userService.update(id, req.body, auditContext(req));
 
         res.status(200).json({
             success: true,
-            message: 'User updated successfully',
+            message: t('user.updated'),
             data: user,
         });
     });
@@ -80,11 +112,41 @@ class UserController {
     delete = asyncHandler(async (req: Request, res: Response) => {
         // Request params are already validated by middleware
         const { id } = req.params as { id: string };
-        const user = await userService.delete(id);
+        const user = await userService.delete(id, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t('user.deleted'),
+            data: user,
+        });
+    });
+
+    /**
+     * Restore a soft-deleted user
+     * POST /api/users/:id/restore
+     */
+    restore = asyncHandler(async (req: Request, res: Response) => {
+        const { id } = req.params as { id: string };
+        const user = await userService.restore(id, auditContext(req));
+
+        res.status(200).json({
+            success: true,
+            message: t('user.restored'),
+            data: user,
+        });
+    });
+
+    /**
+     * Clear login lockout of a user
+     * POST /api/users/:id/unlock
+     */
+    unlock = asyncHandler(async (req: Request, res: Response) => {
+        const { id } = req.params as { id: string };
+        const user = await userService.unlock(id, auditContext(req));
 
         res.status(200).json({
             success: true,
-            message: 'User deleted successfully',
+            message: t('user.unlocked'),
             data: user,
         });
     });
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { PageInfo, UserResponse } from './user.types';
+
+/**
+ * Response schemas for the OpenAPI document
+ * They describe the `data` the controllers send; request schemas live in
+ * user.validation.ts. Typed against the response types so they cannot drift.
+ */
+export const userResponseSchema: z.ZodType<UserResponse> = z.object({
+    id: z.string().uuid(),
+    email: z.string().email(),
+    name: z.string(),
+    authProvider: z.string().nullable(),
+    avatar: z.string().nullable(),
+    emailVerifiedAt: z.date().nullable(),
+    locale: z.string().nullable().describe('Preferred language of API messages; null follows Accept-Language'),
+    tokenVersion: z.number().int(),
+    lastLoginAt: z.date(),
+    createdAt: z.date(),
+    updatedAt: z.date(),
+    deletedAt: z.date().nullable(),
+    purgedAt: z.date().nullable(),
+});
+
+export const pageInfoSchema: z.ZodType<PageInfo> = z.object({
+    limit: z.number().int(),
+    hasMore: z.boolean(),
+    nextCursor: z.string().nullable().describe('Pass as cursor to get the next page (cursor mode)'),
+    page: z.number().int().optional(),
+    total: z.number().int().optional(),
+    totalPages: z.number().int().optional(),
+});
+
+export const userListMetaSchema = z.object({
+    pagination: pageInfoSchema,
+    links: z.object({
+        self: z.string(),
+        next: z.string().nullable(),
+    }),
+});
@@ -1,7 +1,22 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { userController } from './user.controller';
 import { validate } from '../../middleware/validation.middleware';
-import { createUserSchema, updateUserSchema, userIdSchema } from './user.validation';
+import { rateLimit } from '../../middleware/rate-limit.middleware';
+import { apiDoc } from '../../infrastructure/openapi';
+import {
+    authenticate,
+    requireOwnership,
+    requirePermission,
+    requireVerifiedEmail,
+} from '../../middleware/auth.middleware';
+import {
+    createUserSchema,
+    listUsersQuerySchema,
+    updateUserSchema,
+    userIdSchema,
+} from './user.validation';
+import { userListMetaSchema, userResponseSchema } from './user.openapi';
 
 /**
  * User routes
@@ -11,47 +26,140 @@ import { createUserSchema, updateUserSchema, userIdSchema } from './user.validat
  * - Routes are mounted at /api/users in the main app
  * - Validation is handled at route level using validation middleware
  * - Controllers receive pre-validated data
+ * - Protected routes run authenticate → validate → authorization guards
+ * - apiDoc() adds the summary and response schema to the OpenAPI document
  */
 const router = Router();
 
 /**
  * @route   POST /api/users
  * @desc    Create a new user
- * @access  Public
+ * @access  Private (users:create)
  */
-router.post('/', validate({ body: createUserSchema }), userController.create);
+router.post(
+    '/',
+    apiDoc({
+        summary: 'Create a new user',
+        responses: { 201: { description: 'User created', schema: userResponseSchema } },
+    }),
+    authenticate,
+    requireVerifiedEmail,
+    requirePermission('users:create'),
+    rateLimit({ name: 'users:create', windowMs: 60 * 1000, max: 30, keyBy: 'user' }),
+    validate({ body: createUserSchema }),
+    userController.create
+);
 
 /**
  * @route   GET /api/users
- * @desc    Get all users
- * @access  Public
+ * @desc    List users (paginated, filterable, sortable, searchable)
+ * @access  Private (users:read)
  */
-router.get('/', userController.getAll);
+router.get(
+    '/',
+    apiDoc({
+        summary: 'List users',
+        description: 'Paginated, filterable, sortable and searchable. Listing deleted users requires `users:restore`.',
+        responses: {
+            200: { description: 'A page of users', schema: z.array(userResponseSchema), meta: userListMetaSchema },
+        },
+    }),
+    authenticate,
+    requirePermission('users:read'),
+    validate({ query: listUsersQuerySchema }),
+    userController.getAll
+);
 
 /**
  * @route   GET /api/users/:id
  * @desc    Get user by ID
- * @access  Public
+ * @access  Private (owner or users:read)
  */
-router.get('/:id', validate({ params: userIdSchema }), userController.getById);
+router.get(
+    '/:id',
+    apiDoc({
+        summary: 'Get user by ID',
+        responses: { 200: { description: 'The user', schema: userResponseSchema } },
+    }),
+    authenticate,
+    validate({ params: userIdSchema }),
+    requireOwnership('id', 'users:read'),
+    userController.getById
+);
 
 /**
  * @route   PUT /api/users/:id
  * @desc    Update user by ID
- * @access  Public
+ * @access  Private (owner or users:update)
  */
 router.put(
     '/:id',
+    apiDoc({
+        summary: 'Update user by ID',
+        description: 'Changing the password signs the user out everywhere.',
+        responses: { 200: { description: 'The updated user', schema: userResponseSchema } },
+    }),
+    authenticate,
+    requireVerifiedEmail,
     validate({ params: userIdSchema, body: updateUserSchema }),
+    requireOwnership('id', 'users:update'),
     userController.update
 );
 
 /**
  * @route   DELETE /api/users/:id
- * @desc    Delete user by ID
- * @access  Public
+ * @desc    Soft delete user by ID (restorable until purged)
+ * @access  Private (owner or users:delete)
+ */
+router.delete(
+    '/:id',
+    apiDoc({
+        summary: 'Soft delete user by ID',
+        description: 'The user can be restored until purged (USER_RETENTION_DAYS).',
+        responses: { 200: { description: 'The deleted user', schema: userResponseSchema } },
+    }),
+    authenticate,
+    requireVerifiedEmail,
+    validate({ params: userIdSchema }),
+    requireOwnership('id', 'users:delete'),
+    userController.delete
+);
+
+/**
+ * @route   POST /api/users/:id/restore
+ * @desc    Restore a soft-deleted user within the retention window
+ * @access  Private (users:restore)
  */
-router.delete('/:id', validate({ params: userIdSchema }), userController.delete);
+router.post(
+    '/:id/restore',
+    apiDoc({
+        summary: 'Restore a soft-deleted user',
+        responses: { 200: { description: 'The restored user', schema: userResponseSchema } },
+    }),
+    authenticate,
+    requireVerifiedEmail,
+    requirePermission('users:restore'),
+    validate({ params: userIdSchema }),
+    userController.restore
+);
+
+/**
+ * @route   POST /api/users/:id/unlock
+ * @desc    Clear the login lockout of a user
+ * @access  Private (users:unlock)
+ */
+router.post(
+    '/:id/unlock',
+    apiDoc({
+        summary: 'Clear the login lockout of a user',
+        responses: { 200: { description: 'The unlocked user', schema: userResponseSchema } },
+    }),
+    authenticate,
+    requireVerifiedEmail,
+    requirePermission('users:unlock'),
+    validate({ params: userIdSchema }),
+    userController.unlock
+);
 
 export default router;
 
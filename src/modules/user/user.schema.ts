@@ -1,17 +1,37 @@
-import { pgTable, uuid, varchar, timestamp, text } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, timestamp, text, integer } from 'drizzle-orm/pg-core';
+import { isNull } from 'drizzle-orm';
 
 export const users = pgTable('users', {
     id: uuid('id').defaultRandom().primaryKey(),
     email: varchar('email', { length: 255 }).notNull().unique(),
     name: varchar('name', { length: 255 }).notNull(),
     password: varchar('password', { length: 255 }), 
-    googleId: varchar('google_id', { length: 255 }),
+    /** Provider the account was created with; linked providers live in user_identities */
     authProvider: varchar('auth_provider', { length: 50 }).default('local'), 
     avatar : text('avatar'),
-    lastLoginAt: timestamp('last_login_at').defaultNow().notNull(),
-    createdAt: timestamp('created_at').defaultNow().notNull(),
+    emailVerifiedAt: timestamp('email_verified_at'),
+    /** Preferred language of API messages (en, id); overrides Accept-Language when set */
+    locale: varchar('locale', { length: 10 }),
+    /** Embedded in access tokens as `ver`; bumping it revokes every issued access token */
+    tokenVersion: integer('token_version').default(0).notNull(),
+    /**
+     * Sort keys of the list cursor, stored with millisecond precision so the
+     * value round-trips through a JS Date (see userService.getAll)
+     */
+    lastLoginAt: timestamp('last_login_at', { precision: 3 }).defaultNow().notNull(),
+    createdAt: timestamp('created_at', { precision: 3 }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    /** Soft delete marker; deleted users are hidden from every lookup */
+    deletedAt: timestamp('deleted_at'),
+    /** Set when a deleted user is anonymized by the purge job; such users cannot be restored */
+    purgedAt: timestamp('purged_at'),
 });
 
+/**
+ * Filter matching users that are not soft-deleted
+ * Add it to every user lookup: .where(and(eq(users.email, email), userIsActive))
+ */
+export const userIsActive = isNull(users.deletedAt);
+
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
\ No newline at end of file
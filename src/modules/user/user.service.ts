@@ -1,9 +1,53 @@
-import { eq } from 'drizzle-orm';
+import {
+    SQL,
+    and,
+    asc,
+    count,
+    desc,
+    eq,
+    gt,
+    gte,
+    ilike,
+    inArray,
+    isNotNull,
+    isNull,
+    lt,
+    lte,
+    or,
+} from 'drizzle-orm';
 import bcrypt from 'bcrypt';
-import { db } from '../../infrastructure/database';
-import { users } from './user.schema';
-import { CreateUserData, UpdateUserData, UserResponse } from './user.types';
+import { db, withTransaction } from '../../infrastructure/database';
+import { userIsActive, users } from './user.schema';
+import {
+    emailVerificationTokens,
+    passwordResetTokens,
+    refreshTokens,
+} from '../auth/user_tokens.schema';
+import { mfaRecoveryCodes, userMfa } from '../auth/mfa.schema';
+import { userRoles } from '../role/role.schema';
+import { userIdentities } from '../auth/identity.schema';
+import { config } from '../../config/env';
+import {
+    CreateUserData,
+    ListUsersQuery,
+    PaginatedResult,
+    UpdateUserData,
+    UserResponse,
+} from './user.types';
 import { AppError } from '../../middleware/error.middleware';
+import { roleService } from '../role/role.service';
+import { emailVerificationService } from '../auth/email-verification.service';
+import { accountThrottleKey, loginThrottleService } from '../auth/login-throttle.service';
+import { decodeCursor, encodeCursor, escapeLikePattern } from '../../utils/pagination';
+import { auditService } from '../audit/audit.service';
+import { AuditContext } from '../audit/audit.types';
+import { tokenRevocationService } from '../auth/token-revocation.service';
+
+const SORT_COLUMNS = {
+    createdAt: users.createdAt,
+    lastLoginAt: users.lastLoginAt,
+    name: users.name,
+} as const;
 
 /**
  * User Service
@@ -19,9 +63,10 @@ class UserService {
      * Create a new user
      * - Validates email uniqueness
      * - Hashes password before storage
+     * - Assigns the default role in the same transaction, then sends a verification email
      * - Returns user without password
      */
-    async create(data: CreateUserData): Promise<UserResponse> {
+    async create(data: CreateUserData, context: AuditContext = {}): Promise<UserResponse> {
         // Check if email already exists
         const existingUser = await db
             .select()
@@ -30,26 +75,45 @@ class UserService {
             .limit(1);
 
         if (existingUser.length > 0) {
-            throw new AppError(409, 'Email already exists');
+            throw new AppError('USER_EMAIL_TAKEN');
         }
 
         // Hash password
         const hashedPassword = await bcrypt.hash(data.password, 10);
 
-        // Insert user
-        const [newUser] = await db
-            .insert(users)
-            .values({
-                email: data.email,
-                name: data.name,
-                password: hashedPassword,
-                updatedAt: new Date(),
-            })
-            .returning();
+        // Insert user with its role; a concurrent create of the same email
+        // loses on the unique constraint instead of failing with a 500
+        const newUser = await withTransaction(async (tx) => {
+            const [newUser] = await tx
+                .insert(users)
+                .values({
+                    email: data.email,
+                    name: data.name,
+                    password: hashedPassword,
+                    updatedAt: new Date(),
+                })
+                .onConflictDoNothing({ target: users.email })
+                .returning();
 
-        if (!newUser) {
-            throw new AppError(500, 'Failed to create user');
-        }
+            if (!newUser) {
+                throw new AppError('USER_EMAIL_TAKEN');
+            }
+
+            await roleService.assignDefaultRole(newUser.id, tx);
+            return newUser;
+        });
+
+        await emailVerificationService.send(newUser);
+
+        await auditService.record(
+            {
+                action: 'user.create',
+                targetType: 'user',
+                targetId: newUser.id,
+                changes: auditService.diff(null, newUser),
+            },
+            context
+        );
 
         // Return user without password
         const { password, ...userWithoutPassword } = newUser;
@@ -57,14 +121,109 @@ class UserService {
     }
 
     /**
-     * Get all users
-     * - Returns all users without passwords
+     * List users
+     * - Active users by default, soft-deleted ones with status=deleted
+     * - Filters by auth provider and created/last-login date ranges
+     * - Case-insensitive search on name and email
+     * - Offset pagination when `page` is given, keyset (cursor) pagination otherwise;
+     *   ties on the sort column are broken by id so pages never overlap
+     * - Returns users without passwords
      */
-    async getAll(): Promise<UserResponse[]> {
-        const allUsers = await db.select().from(users);
+    async getAll(query: ListUsersQuery): Promise<PaginatedResult<UserResponse>> {
+        if (query.page && query.cursor) {
+            throw new AppError('PAGINATION_MODE_CONFLICT');
+        }
+
+        const sortColumn = SORT_COLUMNS[query.sortBy];
+        const sortKey = `${query.sortBy}:${query.order}`;
+        const direction = query.order === 'asc' ? asc : desc;
+
+        const filters: (SQL | undefined)[] = [
+            query.status === 'deleted' ? isNotNull(users.deletedAt) : userIsActive,
+            query.authProvider ? eq(users.authProvider, query.authProvider) : undefined,
+            query.createdFrom ? gte(users.createdAt, query.createdFrom) : undefined,
+            query.createdTo ? lte(users.createdAt, query.createdTo) : undefined,
+            query.lastLoginFrom ? gte(users.lastLoginAt, query.lastLoginFrom) : undefined,
+            query.lastLoginTo ? lte(users.lastLoginAt, query.lastLoginTo) : undefined,
+        ];
+
+        if (query.search) {
+            const pattern = `%${escapeLikePattern(query.search)}%`;
+            filters.push(or(ilike(users.name, pattern), ilike(users.email, pattern)));
+        }
+
+        const where = and(...filters);
+
+        if (query.page) {
+            const [{ total } = { total: 0 }] = await db
+                .select({ total: count() })
+                .from(users)
+                .where(where);
+
+            const rows = await db
+                .select()
+                .from(users)
+                .where(where)
+                .orderBy(direction(sortColumn), direction(users.id))
+                .limit(query.limit)
+                .offset((query.page - 1) * query.limit);
+
+            return {
+                items: rows.map(({ password, ...user }) => user),
+                pageInfo: {
+                    limit: query.limit,
+                    page: query.page,
+                    total,
+                    totalPages: Math.ceil(total / query.limit),
+                    hasMore: query.page * query.limit < total,
+                    nextCursor: null,
+                },
+            };
+        }
+
+        if (query.cursor) {
+            const cursor = decodeCursor(query.cursor, sortKey);
+            const value = query.sortBy === 'name' ? cursor.value : new Date(cursor.value);
+            if (value instanceof Date && Number.isNaN(value.getTime())) {
+                throw new AppError('PAGINATION_INVALID_CURSOR');
+            }
+            const after = query.order === 'asc' ? gt : lt;
 
-        // Remove password from all users
-        return allUsers.map(({ password, ...user }) => user);
+            filters.push(
+                or(after(sortColumn, value), and(eq(sortColumn, value), after(users.id, cursor.id)))
+            );
+        }
+
+        // Fetch one extra row to know whether another page exists
+        const rows = await db
+            .select()
+            .from(users)
+            .where(and(...filters))
+            .orderBy(direction(sortColumn), direction(users.id))
+            .limit(query.limit + 1);
+
+        const hasMore = rows.length > query.limit;
+        const items = rows.slice(0, query.limit);
+        const last = items[items.length - 1];
+
+        return {
+            items: items.map(({ password, ...user }) => user),
+            pageInfo: {
+                limit: query.limit,
+                hasMore,
+                nextCursor:
+                    hasMore && last
+                        ? encodeCursor({
+                              value:
+                                  query.sortBy === 'name'
+                                      ? last.name
+                                      : last[query.sortBy].toISOString(),
+                              id: last.id,
+                              sort: sortKey,
+                          })
+                        : null,
+            },
+        };
     }
 
     /**
@@ -76,11 +235,11 @@ class UserService {
         const [user] = await db
             .select()
             .from(users)
-            .where(eq(users.id, id))
+            .where(and(eq(users.id, id), userIsActive))
             .limit(1);
 
         if (!user) {
-            throw new AppError(404, 'User not found');
+            throw new AppError('USER_NOT_FOUND');
         }
 
         // Return user without password
@@ -91,23 +250,29 @@ class UserService {
     /**
      * Update user by ID
      * - Validates email uniqueness if email is being updated
-     * - Hashes password if password is being updated
+     * - A changed email must be verified again
+     * - Hashes password if password is being updated, and then revokes
+     *   every session and access token of the user
      * - Throws 404 if user not found
      * - Returns updated user without password
      */
-    async update(id: string, data: UpdateUserData): Promise<UserResponse> {
+    async update(
+        id: string,
+        data: UpdateUserData,
+        context: AuditContext = {}
+    ): Promise<UserResponse> {
         // Check if user exists
         const [existingUser] = await db
             .select()
             .from(users)
-            .where(eq(users.id, id))
+            .where(and(eq(users.id, id), userIsActive))
             .limit(1);
 
         if (!existingUser) {
-            throw new AppError(404, 'User not found');
+            throw new AppError('USER_NOT_FOUND');
         }
 
-        // If email is being updated, check uniqueness
+        // If email is being updated, check uniqueness (deleted users keep their email)
         if (data.email && data.email !== existingUser.email) {
             const [emailExists] = await db
                 .select()
@@ -116,14 +281,17 @@ class UserService {
                 .limit(1);
 
             if (emailExists) {
-                throw new AppError(409, 'Email already exists');
+                throw new AppError('USER_EMAIL_TAKEN');
             }
         }
 
+        const emailChanged = !!data.email && data.email !== existingUser.email;
+
         // Prepare update data
         const updateData: any = {
             ...data,
             updatedAt: new Date(),
+            ...(emailChanged && { emailVerifiedAt: null }),
         };
 
         // Hash password if it's being updated
@@ -131,41 +299,223 @@ class UserService {
             updateData.password = await bcrypt.hash(data.password, 10);
         }
 
-        // Update user
-        const [updatedUser] = await db
-            .update(users)
-            .set(updateData)
-            .where(eq(users.id, id))
-            .returning();
+        // Update user; a new password signs the user out everywhere in the same transaction
+        const updatedUser = await withTransaction(async (tx) => {
+            const [updatedUser] = await tx
+                .update(users)
+                .set(updateData)
+                .where(eq(users.id, id))
+                .returning();
 
-        if (!updatedUser) {
-            throw new AppError(500, 'Failed to update user');
+            if (!updatedUser) {
+                throw new AppError('INTERNAL_ERROR');
+            }
+
+            if (data.password) {
+                await tx
+                    .update(refreshTokens)
+                    .set({ revoked: true })
+                    .where(and(eq(refreshTokens.userId, id), eq(refreshTokens.revoked, false)));
+                const tokenVersion = await tokenRevocationService.bumpVersion(id, tx);
+                if (tokenVersion !== null) updatedUser.tokenVersion = tokenVersion;
+            }
+
+            return updatedUser;
+        });
+
+        if (data.password) {
+            tokenRevocationService.cacheVersion(id, updatedUser.tokenVersion);
         }
 
+        if (emailChanged) {
+            await emailVerificationService.send(updatedUser);
+        }
+
+        await auditService.record(
+            {
+                action: 'user.update',
+                targetType: 'user',
+                targetId: id,
+                changes: auditService.diff(existingUser, updatedUser),
+                metadata: { passwordChanged: !!data.password },
+            },
+            context
+        );
+
         // Return user without password
         const { password, ...userWithoutPassword } = updatedUser;
         return userWithoutPassword;
     }
 
     /**
-     * Delete user by ID
-     * - Throws 404 if user not found
+     * Soft delete user by ID
+     * - Sets deletedAt and revokes every session and access token; the row is kept for the
+     *   USER_RETENTION_DAYS restore window, then purged by purgeDeleted()
+     * - Throws 404 if user not found or already deleted
      * - Returns deleted user without password
      */
-    async delete(id: string): Promise<UserResponse> {
-        const [deletedUser] = await db
-            .delete(users)
-            .where(eq(users.id, id))
-            .returning();
+    async delete(id: string, context: AuditContext = {}): Promise<UserResponse> {
+        const deletedUser = await withTransaction(async (tx) => {
+            const [deletedUser] = await tx
+                .update(users)
+                .set({ deletedAt: new Date() })
+                .where(and(eq(users.id, id), userIsActive))
+                .returning();
 
-        if (!deletedUser) {
-            throw new AppError(404, 'User not found');
-        }
+            if (!deletedUser) {
+                throw new AppError('USER_NOT_FOUND');
+            }
+
+            await tx
+                .update(refreshTokens)
+                .set({ revoked: true })
+                .where(and(eq(refreshTokens.userId, id), eq(refreshTokens.revoked, false)));
+            await tokenRevocationService.bumpVersion(id, tx);
+
+            return deletedUser;
+        });
+
+        // Deleted users have no valid version
+        tokenRevocationService.cacheVersion(id, null);
+
+        await auditService.record({ action: 'user.delete', targetType: 'user', targetId: id }, context);
 
         // Return deleted user without password
         const { password, ...userWithoutPassword } = deletedUser;
         return userWithoutPassword;
     }
+
+    /**
+     * Restore a soft-deleted user
+     * - Throws 404 if user not found, not deleted or already purged
+     * - Sessions revoked at deletion stay revoked
+     */
+    async restore(id: string, context: AuditContext = {}): Promise<UserResponse> {
+        const [restoredUser] = await db
+            .update(users)
+            .set({ deletedAt: null, updatedAt: new Date() })
+            .where(and(eq(users.id, id), isNotNull(users.deletedAt), isNull(users.purgedAt)))
+            .returning();
+
+        if (!restoredUser) {
+            throw new AppError('USER_DELETED_NOT_FOUND');
+        }
+
+        // delete() cached the user as gone; cache the live version again
+        tokenRevocationService.cacheVersion(id, restoredUser.tokenVersion);
+        await auditService.record({ action: 'user.restore', targetType: 'user', targetId: id }, context);
+
+        const { password, ...userWithoutPassword } = restoredUser;
+        return userWithoutPassword;
+    }
+
+    /**
+     * Permanently remove users deleted more than USER_RETENTION_DAYS ago
+     * - delete: removes the row (cascading to tokens, roles and MFA data)
+     * - anonymize: keeps the row for referential history but scrubs personal
+     *   data, credentials and linked identities, and marks it purged so it cannot be restored
+     * - Either way personal data is scrubbed from the user's audit entries
+     *
+     * @returns number of users purged
+     */
+    async purgeDeleted(
+        retentionDays = config.USER_RETENTION_DAYS,
+        mode = config.USER_PURGE_MODE
+    ): Promise<number> {
+        const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+        const expired = and(lt(users.deletedAt, cutoff), isNull(users.purgedAt));
+
+        if (mode === 'delete') {
+            const purged = await withTransaction(async (tx) => {
+                // Locked so a concurrent restore cannot slip in between redaction and delete
+                const candidates = await tx
+                    .select({ id: users.id, email: users.email })
+                    .from(users)
+                    .where(expired)
+                    .for('update');
+                const ids = candidates.map(({ id }) => id);
+                if (ids.length === 0) return [];
+
+                await auditService.redactUsers(candidates, tx);
+                return tx.delete(users).where(inArray(users.id, ids)).returning({ id: users.id });
+            });
+
+            for (const { id } of purged) {
+                await auditService.record({
+                    action: 'user.purge',
+                    actorId: null,
+                    targetType: 'user',
+                    targetId: id,
+                    metadata: { mode },
+                });
+            }
+
+            return purged.length;
+        }
+
+        const candidates = await db.select({ id: users.id, email: users.email }).from(users).where(expired);
+        let purged = 0;
+
+        for (const { id, email } of candidates) {
+            // Each user is anonymized completely or not at all
+            const anonymized = await withTransaction(async (tx) => {
+                // Re-checked so a user restored since the select is left alone
+                const [anonymizedUser] = await tx
+                    .update(users)
+                    .set({
+                        email: `deleted-${id}@deleted.invalid`,
+                        name: 'Deleted user',
+                        password: null,
+                        avatar: null,
+                        emailVerifiedAt: null,
+                        purgedAt: new Date(),
+                        updatedAt: new Date(),
+                    })
+                    .where(and(eq(users.id, id), expired))
+                    .returning({ id: users.id });
+
+                if (!anonymizedUser) return false;
+
+                await tx.delete(refreshTokens).where(eq(refreshTokens.userId, id));
+                await tx.delete(emailVerificationTokens).where(eq(emailVerificationTokens.userId, id));
+                await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+                await tx.delete(userMfa).where(eq(userMfa.userId, id));
+                await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, id));
+                await tx.delete(userRoles).where(eq(userRoles.userId, id));
+                await tx.delete(userIdentities).where(eq(userIdentities.userId, id));
+                await auditService.redactUsers([{ id, email }], tx);
+                return true;
+            });
+
+            if (!anonymized) continue;
+            purged++;
+
+            await auditService.record({
+                action: 'user.purge',
+                actorId: null,
+                targetType: 'user',
+                targetId: id,
+                metadata: { mode },
+            });
+        }
+
+        return purged;
+    }
+
+    /**
+     * Clear the login lockout of a user
+     * - Throws 404 if user not found
+     * - Per-IP counters are left untouched
+     */
+    async unlock(id: string, context: AuditContext = {}): Promise<UserResponse> {
+        const user = await this.getById(id);
+
+        await loginThrottleService.clear(accountThrottleKey(user.email));
+
+        await auditService.record({ action: 'user.unlock', targetType: 'user', targetId: id }, context);
+
+        return user;
+    }
 }
 
 // Export singleton instance
@@ -1,5 +1,5 @@
 import { User } from './user.schema';
-import { CreateUserInput, UpdateUserInput } from './user.validation';
+import { CreateUserInput, ListUsersQueryInput, UpdateUserInput } from './user.validation';
 
 /**
  * User response DTO (Data Transfer Object)
@@ -12,3 +12,23 @@ export type UserResponse = Omit<User, 'password'>;
  */
 export type CreateUserData = CreateUserInput;
 export type UpdateUserData = UpdateUserInput;
+export type ListUsersQuery = ListUsersQueryInput;
+
+/**
+ * Page metadata returned with list endpoints
+ * - Offset mode fills page/total/totalPages
+ * - Cursor mode fills nextCursor
+ */
+export type PageInfo = {
+    limit: number;
+    hasMore: boolean;
+    nextCursor: string | null;
+    page?: number;
+    total?: number;
+    totalPages?: number;
+};
+
+export type PaginatedResult<T> = {
+    items: T[];
+    pageInfo: PageInfo;
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SUPPORTED_LOCALES } from '../../infrastructure/i18n';
 
 /**
  * Validation schema for creating a new user
@@ -11,18 +12,18 @@ import { z } from 'zod';
 export const createUserSchema = z.object({
     email: z
         .string()
-        .email('Invalid email format')
-        .min(1, 'Email is required')
-        .max(255, 'Email must be less than 255 characters'),
+        .email()
+        .min(1)
+        .max(255),
     name: z
         .string()
-        .min(1, 'Name is required')
-        .max(255, 'Name must be less than 255 characters')
+        .min(1)
+        .max(255)
         .trim(),
     password: z
         .string()
-        .min(8, 'Password must be at least 8 characters')
-        .max(255, 'Password must be less than 255 characters'),
+        .min(8)
+        .max(255),
 });
 
 /**
@@ -32,20 +33,22 @@ export const createUserSchema = z.object({
 export const updateUserSchema = z.object({
     email: z
         .string()
-        .email('Invalid email format')
-        .max(255, 'Email must be less than 255 characters')
+        .email()
+        .max(255)
         .optional(),
     name: z
         .string()
-        .min(1, 'Name cannot be empty')
-        .max(255, 'Name must be less than 255 characters')
+        .min(1)
+        .max(255)
         .trim()
         .optional(),
     password: z
         .string()
-        .min(8, 'Password must be at least 8 characters')
-        .max(255, 'Password must be less than 255 characters')
+        .min(8)
+        .max(255)
         .optional(),
+    // null clears the preference; applies from the next access token
+    locale: z.enum(SUPPORTED_LOCALES).nullable().optional(),
 });
 
 /**
@@ -53,7 +56,27 @@ export const updateUserSchema = z.object({
  * Ensures the ID is a valid UUID
  */
 export const userIdSchema = z.object({
-    id: z.string().uuid('Invalid user ID format'),
+    id: z.string().uuid(),
+});
+
+/**
+ * Validation schema for listing users
+ * - Offset pagination with `page`, or cursor pagination with `cursor` (the default)
+ * - Query strings are coerced to numbers and dates
+ */
+export const listUsersQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().min(1).optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    sortBy: z.enum(['createdAt', 'lastLoginAt', 'name']).default('createdAt'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    search: z.string().trim().min(1).max(255).optional(),
+    status: z.enum(['active', 'deleted']).default('active'),
+    authProvider: z.string().max(50).optional(),
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    lastLoginFrom: z.coerce.date().optional(),
+    lastLoginTo: z.coerce.date().optional(),
 });
 
 /**
@@ -63,3 +86,4 @@ export const userIdSchema = z.object({
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type UserIdInput = z.infer<typeof userIdSchema>;
+export type ListUsersQueryInput = z.infer<typeof listUsersQuerySchema>;
@@ -2,6 +2,11 @@ import { createApp } from './app';
 import { config } from './config/env';
 import { testConnection, closeConnection } from './infrastructure/database';
 import { logger } from './middleware/logger.middleware';
+import { startUserPurgeJob } from './jobs/user-purge.job';
+import { lifecycle } from './utils/lifecycle';
+
+// Running requests get this long to finish once the listener is closed
+const SHUTDOWN_TIMEOUT_MS = 10000;
 
 /**
  * Server entry point
@@ -9,8 +14,9 @@ import { logger } from './middleware/logger.middleware';
  * Architecture Note:
  * - Validates environment configuration
  * - Initializes database connection
- * - Starts HTTP server
- * - Handles graceful shutdown
+ * - Starts HTTP server and background jobs
+ * - Handles graceful shutdown: readiness fails first, then the server
+ *   drains in-flight requests before the database pool is closed
  */
 const startServer = async () => {
     try {
@@ -31,36 +37,60 @@ const startServer = async () => {
         const server = app.listen(config.PORT, () => {
             logger.info(`🚀 Server is running on port ${config.PORT}`);
             logger.info(`📝 Environment: ${config.NODE_ENV}`);
-            logger.info(`🔗 Health check: http://localhost:${config.PORT}/health`);
+            logger.info(`🔗 Health check: http://localhost:${config.PORT}/health/ready`);
+            logger.info(`🔐 Auth API: http://localhost:${config.PORT}/api/auth`);
             logger.info(`👥 User API: http://localhost:${config.PORT}/api/users`);
         });
 
+        // ============================================
+        // Background Jobs
+        // ============================================
+        const stopUserPurgeJob = startUserPurgeJob();
+
         // ============================================
         // Graceful Shutdown
         // ============================================
         const gracefulShutdown = async (signal: string) => {
+            // Signals and fatal errors can arrive while already shutting down
+            if (lifecycle.draining) return;
+
             logger.info(`${signal} received. Starting graceful shutdown...`);
 
-            // Stop accepting new connections
-            server.close(async () => {
-                logger.info('HTTP server closed');
-
-                try {
-                    // Close database connections
-                    await closeConnection();
-                    logger.info('✅ Graceful shutdown completed');
-                    process.exit(0);
-                } catch (error) {
-                    logger.error('Error during shutdown:', error);
-                    process.exit(1);
-                }
-            });
-
-            // Force shutdown after 10 seconds
+            // /health/ready answers 503 from now on
+            lifecycle.beginDrain();
+            stopUserPurgeJob();
+
+            if (config.SHUTDOWN_DELAY_SECONDS > 0) {
+                logger.info(`Waiting ${config.SHUTDOWN_DELAY_SECONDS}s for load balancers to deregister`);
+                await new Promise((resolve) => setTimeout(resolve, config.SHUTDOWN_DELAY_SECONDS * 1000));
+            }
+
+            // Force shutdown if requests are still running after the timeout
             setTimeout(() => {
-                logger.error('Forced shutdown after timeout');
+                logger.error('Forced shutdown after timeout', { inFlight: lifecycle.inFlight });
+                process.exit(1);
+            }, SHUTDOWN_TIMEOUT_MS).unref();
+
+            // Stop accepting new connections and drop idle keep-alive sockets;
+            // busy sockets are closed after their response (Connection: close)
+            const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+            server.closeIdleConnections();
+
+            logger.info(`Waiting for ${lifecycle.inFlight} in-flight request(s)`);
+            await lifecycle.waitForIdle();
+            server.closeAllConnections();
+            await closed;
+            logger.info('HTTP server closed');
+
+            try {
+                // Close database connections
+                await closeConnection();
+                logger.info('✅ Graceful shutdown completed');
+                process.exit(0);
+            } catch (error) {
+                logger.error('Error during shutdown:', error);
                 process.exit(1);
-            }, 10000);
+            }
         };
 
         // Listen for termination signals
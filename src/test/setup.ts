@@ -0,0 +1,19 @@
+/**
+ * Test environment, loaded before every test file (see the test script)
+ * Fills the required variables with placeholders so modules that read the
+ * config can be imported; unit tests never connect to them
+ */
+const defaults: Record<string, string> = {
+    NODE_ENV: 'test',
+    LOG_LEVEL: 'error',
+    DATABASE_URL: 'postgres://test@localhost:5432/test',
+    ACCESS_SECRET: 'test-access-secret',
+    REFRESH_SECRET: 'test-refresh-secret',
+    GOOGLE_CLIENT_ID: 'test-google-client-id',
+    GOOGLE_CLIENT_SECRET: 'test-google-client-secret',
+    GOOGLE_REDIRECT_URI: 'http://localhost:3000/api/auth/google/callback',
+};
+
+for (const [name, value] of Object.entries(defaults)) {
+    process.env[name] ??= value;
+}
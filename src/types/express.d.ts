@@ -0,0 +1,17 @@
+import { AuthenticatedUser } from '../modules/auth/auth.types';
+
+/**
+ * Express request augmentation
+ * req.id is set by the requestContext middleware,
+ * req.user is populated by the authenticate middleware
+ */
+declare global {
+    namespace Express {
+        interface Request {
+            id: string;
+            user?: AuthenticatedUser;
+        }
+    }
+}
+
+export {};
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    CONSTRAINT_ERROR_CODES,
+    ERROR_CATALOG,
+    ErrorCode,
+    ErrorText,
+    formatErrorDetail,
+    problemType,
+} from './error-catalog';
+import { idErrors } from '../infrastructure/i18n/locales/id';
+
+const codes = Object.keys(ERROR_CATALOG) as ErrorCode[];
+
+const placeholders = (text: string | undefined) =>
+    [...(text ?? '').matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+
+describe('ERROR_CATALOG', () => {
+    it('sends an error status for every code', () => {
+        for (const code of codes) {
+            const { status } = ERROR_CATALOG[code];
+            assert.ok(Number.isInteger(status) && status >= 400 && status < 600, `${code}: ${status}`);
+        }
+    });
+
+    it('uses upper snake case codes', () => {
+        for (const code of codes) {
+            assert.match(code, /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/);
+        }
+    });
+
+    it('has Indonesian texts with the same placeholders', () => {
+        assert.deepEqual(Object.keys(idErrors).sort(), [...codes].sort());
+
+        for (const code of codes) {
+            const en: ErrorText = ERROR_CATALOG[code];
+            assert.deepEqual(placeholders(idErrors[code].detail), placeholders(en.detail), code);
+            assert.equal(!!idErrors[code].detail, !!en.detail, code);
+        }
+    });
+
+    it('maps constraints to catalog codes', () => {
+        for (const code of Object.values(CONSTRAINT_ERROR_CODES)) {
+            assert.ok(code in ERROR_CATALOG, code);
+        }
+    });
+});
+
+describe('formatErrorDetail', () => {
+    it('fills placeholders from params', () => {
+        assert.equal(formatErrorDetail('ROLE_NOT_FOUND', { role: 'editor' }), 'Role "editor" not found');
+    });
+
+    it('falls back to the title when a param is missing', () => {
+        assert.equal(formatErrorDetail('ROLE_NOT_FOUND'), 'Role not found');
+    });
+
+    it('uses the title for codes without a detail', () => {
+        assert.equal(formatErrorDetail('USER_NOT_FOUND', { ignored: 1 }), 'User not found');
+    });
+
+    it('formats the given text instead of the English one', () => {
+        assert.equal(
+            formatErrorDetail('ROLE_NOT_FOUND', { role: 'editor' }, idErrors.ROLE_NOT_FOUND),
+            'Peran "editor" tidak ditemukan'
+        );
+    });
+});
+
+describe('problemType', () => {
+    it('derives a URN from the code', () => {
+        assert.equal(problemType('USER_EMAIL_TAKEN'), 'urn:problem-type:user-email-taken');
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * The human-readable text of an error
+ * - title: short summary, the same for every occurrence of the code
+ * - detail: message for one occurrence; `{name}` placeholders are filled from
+ *   the params given to AppError. Defaults to the title
+ */
+export type ErrorText = {
+    title: string;
+    detail?: string;
+};
+
+/**
+ * An entry of the error catalog: the HTTP status sent with the error and
+ * its English text (translations live in src/infrastructure/i18n/locales)
+ */
+export type ErrorDefinition = ErrorText & {
+    status: number;
+};
+
+export type ErrorParams = Record<string, string | number>;
+
+/**
+ * Error Catalog
+ *
+ * Architecture Note:
+ * - Every error the API returns has a stable code; clients branch on `code`,
+ *   never on the human-readable text
+ * - Codes are never renamed or reused once released; add a new code instead
+ * - Grouped by the area that raises them; the prefix is part of the code
+ */
+export const ERROR_CATALOG = {
+    // Request handling
+    VALIDATION_FAILED: { status: 400, title: 'Validation Error', detail: 'The request contains invalid fields' },
+    REQUEST_MALFORMED_JSON: { status: 400, title: 'Malformed JSON body' },
+    REQUEST_BODY_TOO_LARGE: { status: 413, title: 'Request body too large' },
+    ROUTE_NOT_FOUND: { status: 404, title: 'Route not found', detail: 'Route {path} not found' },
+    RATE_LIMITED: {
+        status: 429,
+        title: 'Too many requests',
+        detail: 'Too many requests, try again in {retryAfter} seconds',
+    },
+    INTERNAL_ERROR: { status: 500, title: 'Internal Server Error' },
+
+    // Database constraints without a more specific code
+    RESOURCE_CONFLICT: { status: 409, title: 'Resource already exists' },
+    INVALID_REFERENCE: { status: 400, title: 'Invalid reference' },
+    REQUIRED_FIELD_MISSING: { status: 400, title: 'Required field missing', detail: 'Field {column} is required' },
+    INVALID_VALUE: { status: 400, title: 'Invalid value' },
+    CONCURRENT_UPDATE: {
+        status: 409,
+        title: 'Concurrent update',
+        detail: 'The request conflicted with another request, try again',
+    },
+    DATABASE_ERROR: { status: 500, title: 'Database error' },
+
+    // Pagination
+    PAGINATION_INVALID_CURSOR: { status: 400, title: 'Invalid cursor' },
+    PAGINATION_CURSOR_SORT_MISMATCH: { status: 400, title: 'Cursor does not match the requested sort' },
+    PAGINATION_MODE_CONFLICT: { status: 400, title: 'Use either page or cursor, not both' },
+
+    // Authentication and authorization
+    AUTH_REQUIRED: { status: 401, title: 'Authentication required' },
+    AUTH_INVALID_HEADER: { status: 401, title: 'Invalid authorization header' },
+    AUTH_ACCESS_TOKEN_INVALID: { status: 401, title: 'Invalid access token' },
+    AUTH_ACCESS_TOKEN_EXPIRED: { status: 401, title: 'Access token expired' },
+    AUTH_ACCESS_TOKEN_REVOKED: { status: 401, title: 'Access token revoked' },
+    AUTH_INSUFFICIENT_PERMISSIONS: { status: 403, title: 'Insufficient permissions' },
+    AUTH_NOT_RESOURCE_OWNER: { status: 403, title: 'You do not have access to this resource' },
+    AUTH_EMAIL_NOT_VERIFIED: { status: 403, title: 'Email address is not verified' },
+    AUTH_ACCOUNT_DELETED: { status: 403, title: 'This account has been deleted' },
+    AUTH_INVALID_CREDENTIALS: { status: 401, title: 'Invalid credentials' },
+    AUTH_LOGIN_LOCKED: {
+        status: 429,
+        title: 'Too many failed login attempts',
+        detail: 'Too many failed login attempts, try again in {retryAfter} seconds',
+    },
+    AUTH_REFRESH_TOKEN_MISSING: { status: 401, title: 'No token provided' },
+    AUTH_REFRESH_TOKEN_INVALID: { status: 401, title: 'Invalid refresh token' },
+    AUTH_REFRESH_TOKEN_REVOKED: { status: 401, title: 'Refresh token revoked' },
+    AUTH_REFRESH_TOKEN_EXPIRED: { status: 401, title: 'Refresh token expired' },
+    AUTH_REFRESH_TOKEN_REUSED: { status: 401, title: 'Refresh token reuse detected' },
+    AUTH_LOGOUT_TOKEN_REQUIRED: { status: 400, title: 'Token required' },
+    AUTH_SESSION_NOT_FOUND: { status: 404, title: 'Session not found' },
+    AUTH_METRICS_TOKEN_INVALID: { status: 401, title: 'Invalid metrics token' },
+
+    // Email verification and password reset
+    VERIFICATION_TOKEN_INVALID: { status: 400, title: 'Invalid verification token' },
+    VERIFICATION_TOKEN_EXPIRED: { status: 400, title: 'Verification token expired' },
+    PASSWORD_RESET_TOKEN_INVALID: { status: 400, title: 'Invalid password reset token' },
+    PASSWORD_RESET_TOKEN_EXPIRED: { status: 400, title: 'Password reset token expired' },
+
+    // Two-factor authentication
+    MFA_CHALLENGE_INVALID: { status: 401, title: 'Invalid or expired MFA challenge' },
+    MFA_CODE_INVALID: { status: 401, title: 'Invalid MFA code' },
+    MFA_RECOVERY_CODE_INVALID: { status: 401, title: 'Invalid recovery code' },
+    MFA_CODE_REQUIRED: { status: 400, title: 'MFA code or recovery code required' },
+    MFA_SETUP_NOT_STARTED: { status: 400, title: 'MFA setup has not been started' },
+    MFA_SETUP_CODE_INVALID: { status: 400, title: 'Invalid MFA code' },
+    MFA_ALREADY_ENABLED: { status: 409, title: 'MFA is already enabled' },
+    MFA_NOT_ENABLED: { status: 400, title: 'MFA is not enabled' },
+
+    // Identity providers (Google, OIDC) and the authorization-code flow
+    OIDC_UNKNOWN_PROVIDER: { status: 404, title: 'Unknown identity provider' },
+    OIDC_ID_TOKEN_INVALID: { status: 401, title: 'Invalid ID token' },
+    OIDC_EMAIL_MISSING: { status: 400, title: 'Identity provider did not return an email address' },
+    OIDC_CODE_FLOW_UNSUPPORTED: {
+        status: 400,
+        title: 'Identity provider does not support the authorization-code flow',
+    },
+    OIDC_CODE_EXCHANGE_FAILED: { status: 401, title: 'Authorization code exchange failed' },
+    OIDC_ID_TOKEN_MISSING: { status: 502, title: 'Identity provider did not return an ID token' },
+    OIDC_PROVIDER_MISCONFIGURED: { status: 502, title: 'Identity provider is misconfigured' },
+    OIDC_PROVIDER_UNAVAILABLE: { status: 502, title: 'Identity provider is unavailable' },
+    OAUTH_STATE_INVALID: { status: 401, title: 'Invalid OAuth state' },
+    OAUTH_ACCESS_DENIED: { status: 403, title: 'Authorization was denied' },
+    OAUTH_REDIRECT_NOT_ALLOWED: { status: 400, title: 'Redirect URL is not allowed' },
+    OAUTH_CODE_FLOW_DISABLED: { status: 404, title: 'Browser sign-in is not enabled' },
+
+    // Linked identities
+    IDENTITY_NOT_FOUND: { status: 404, title: 'Identity not found' },
+    IDENTITY_ALREADY_LINKED: { status: 409, title: 'This account is already linked' },
+    IDENTITY_LINKED_TO_OTHER_USER: { status: 409, title: 'This account is linked to another user' },
+    IDENTITY_PROVIDER_ALREADY_LINKED: {
+        status: 409,
+        title: 'Provider already linked',
+        detail: 'A {provider} account is already linked',
+    },
+    IDENTITY_PROVIDER_MISMATCH: {
+        status: 409,
+        title: 'Linked to a different provider account',
+        detail: 'This account is linked to a different {provider} account',
+    },
+    IDENTITY_LINK_REQUIRED: {
+        status: 409,
+        title: 'Account exists',
+        detail: 'An account with this email already exists, sign in and link {provider} from your account',
+    },
+    IDENTITY_LAST_SIGN_IN_METHOD: {
+        status: 409,
+        title: 'Cannot unlink the last sign-in method',
+        detail: 'Cannot unlink the last sign-in method, set a password first',
+    },
+
+    // Users
+    USER_NOT_FOUND: { status: 404, title: 'User not found' },
+    USER_DELETED_NOT_FOUND: { status: 404, title: 'Deleted user not found' },
+    USER_EMAIL_TAKEN: { status: 409, title: 'Email already exists' },
+
+    // Roles
+    ROLE_NOT_FOUND: { status: 404, title: 'Role not found', detail: 'Role "{role}" not found' },
+    ROLE_NOT_ASSIGNED: { status: 404, title: 'Role is not assigned to this user' },
+    ROLE_LAST_ADMIN: { status: 409, title: 'Cannot revoke the last admin' },
+} as const satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+/**
+ * Codes for database constraint names, checked before the generic
+ * PostgreSQL error classes in errorHandler
+ */
+export const CONSTRAINT_ERROR_CODES: Record<string, ErrorCode> = {
+    users_email_unique: 'USER_EMAIL_TAKEN',
+    user_identities_provider_subject_unique: 'IDENTITY_LINKED_TO_OTHER_USER',
+    user_identities_user_provider_unique: 'IDENTITY_PROVIDER_ALREADY_LINKED',
+};
+
+/**
+ * Fill the detail template of a code with params
+ * text defaults to the English text from the catalog
+ * Falls back to the title when a placeholder has no param, e.g. for
+ * errors mapped from database constraints
+ */
+export const formatErrorDetail = (
+    code: ErrorCode,
+    params: ErrorParams = {},
+    text: ErrorText = ERROR_CATALOG[code]
+): string => {
+    if (!text.detail) return text.title;
+
+    const placeholders = [...text.detail.matchAll(/\{(\w+)\}/g)].map((match) => match[1] as string);
+    if (placeholders.some((name) => params[name] === undefined)) return text.title;
+
+    return text.detail.replace(/\{(\w+)\}/g, (_placeholder, name: string) => String(params[name]));
+};
+
+/**
+ * The problem type URI of a code, e.g. urn:problem-type:user-email-taken
+ */
+export const problemType = (code: ErrorCode): string =>
+    `urn:problem-type:${code.toLowerCase().replace(/_/g, '-')}`;
@@ -0,0 +1,10 @@
+/**
+ * Escape user-controlled text before interpolating it into HTML (e.g. emails)
+ */
+export const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
@@ -0,0 +1,46 @@
+/**
+ * Server lifecycle state
+ * Tracks in-flight requests and whether the server is draining, so
+ * readiness can fail as soon as shutdown starts and shutdown can wait for
+ * running requests instead of a fixed timeout
+ */
+class ServerLifecycle {
+    private _draining = false;
+    private _inFlight = 0;
+    private idleWaiters: (() => void)[] = [];
+
+    get draining(): boolean {
+        return this._draining;
+    }
+
+    get inFlight(): number {
+        return this._inFlight;
+    }
+
+    beginDrain(): void {
+        this._draining = true;
+    }
+
+    requestStarted(): void {
+        this._inFlight++;
+    }
+
+    requestFinished(): void {
+        this._inFlight = Math.max(0, this._inFlight - 1);
+
+        if (this._inFlight === 0) {
+            this.idleWaiters.splice(0).forEach((resolve) => resolve());
+        }
+    }
+
+    /**
+     * Resolve once no request is in flight
+     */
+    waitForIdle(): Promise<void> {
+        if (this._inFlight === 0) return Promise.resolve();
+
+        return new Promise((resolve) => this.idleWaiters.push(resolve));
+    }
+}
+
+export const lifecycle = new ServerLifecycle();
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor, escapeLikePattern } from './pagination';
+
+const SORT = 'createdAt:desc';
+
+const encodeRaw = (payload: string) => Buffer.from(payload).toString('base64url');
+
+const invalidCursor = { code: 'PAGINATION_INVALID_CURSOR' };
+
+describe('encodeCursor / decodeCursor', () => {
+    it('round-trips a cursor', () => {
+        const cursor = { value: '2026-01-01T00:00:00.123Z', id: 'b5c1c7a2-0000-4000-8000-000000000000', sort: SORT };
+
+        assert.deepEqual(decodeCursor(encodeCursor(cursor), SORT), cursor);
+    });
+
+    it('produces URL-safe strings', () => {
+        const raw = encodeCursor({ value: '??>>~~', id: '1', sort: SORT });
+
+        assert.match(raw, /^[A-Za-z0-9_-]+$/);
+    });
+
+    it('rejects a cursor produced for another sort', () => {
+        const raw = encodeCursor({ value: 'a', id: '1', sort: 'name:asc' });
+
+        assert.throws(() => decodeCursor(raw, SORT), { code: 'PAGINATION_CURSOR_SORT_MISMATCH' });
+    });
+
+    it('rejects payloads that are not JSON', () => {
+        assert.throws(() => decodeCursor('not a cursor', SORT), invalidCursor);
+        assert.throws(() => decodeCursor(encodeRaw('{"id":'), SORT), invalidCursor);
+    });
+
+    it('rejects JSON that is not an object', () => {
+        assert.equal(encodeRaw('null'), 'bnVsbA');
+
+        for (const payload of ['null', '42', '"cursor"', 'true']) {
+            assert.throws(() => decodeCursor(encodeRaw(payload), SORT), invalidCursor, payload);
+        }
+    });
+
+    it('rejects objects without a string id and value', () => {
+        for (const payload of [{}, { id: 1, value: 'a', sort: SORT }, { id: '1', value: null, sort: SORT }]) {
+            assert.throws(() => decodeCursor(encodeRaw(JSON.stringify(payload)), SORT), invalidCursor);
+        }
+    });
+});
+
+describe('escapeLikePattern', () => {
+    it('escapes wildcards and the escape character', () => {
+        assert.equal(escapeLikePattern('50%_off\\'), '50\\%\\_off\\\\');
+        assert.equal(escapeLikePattern('plain'), 'plain');
+    });
+});
@@ -0,0 +1,47 @@
+import { AppError } from '../middleware/error.middleware';
+
+/**
+ * Opaque keyset cursor
+ * Holds the sort value and id of the last item of a page, plus the sort it
+ * was produced for so it cannot be replayed against a different ordering
+ */
+export type Cursor = {
+    value: string;
+    id: string;
+    sort: string;
+};
+
+export const encodeCursor = (cursor: Cursor): string => {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+export const decodeCursor = (raw: string, expectedSort: string): Cursor => {
+    let cursor: Partial<Cursor> | null;
+    try {
+        cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    } catch {
+        throw new AppError('PAGINATION_INVALID_CURSOR');
+    }
+
+    // Valid JSON need not be an object (e.g. `null` or a number)
+    if (typeof cursor !== 'object' || cursor === null) {
+        throw new AppError('PAGINATION_INVALID_CURSOR');
+    }
+
+    if (typeof cursor.id !== 'string' || typeof cursor.value !== 'string') {
+        throw new AppError('PAGINATION_INVALID_CURSOR');
+    }
+
+    if (cursor.sort !== expectedSort) {
+        throw new AppError('PAGINATION_CURSOR_SORT_MISMATCH');
+    }
+
+    return cursor as Cursor;
+};
+
+/**
+ * Escape LIKE/ILIKE wildcards in user input
+ */
+export const escapeLikePattern = (value: string): string => {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+};
@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Locale } from '../infrastructure/i18n/i18n.types';
+
+/**
+ * Per-request values available anywhere down the call chain
+ * without passing them through every function
+ */
+export type RequestContext = {
+    requestId: string;
+    userId?: string;
+    /** Language responses are written in, set by the locale middleware */
+    locale?: Locale;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function (and everything it awaits) inside a request context
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => storage.run(context, fn);
+
+/**
+ * Context of the request being handled, undefined outside requests (startup, jobs)
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Record the authenticated user once the access token is verified
+ */
+export const setRequestUser = (userId: string): void => {
+    const context = storage.getStore();
+    if (context) context.userId = userId;
+};
+
+/**
+ * Switch the language of the rest of the request
+ */
+export const setRequestLocale = (locale: Locale): void => {
+    const context = storage.getStore();
+    if (context) context.locale = locale;
+};
@@ -3,20 +3,49 @@ import jwt from "jsonwebtoken";
 import { config } from "../config/env";
 import { Response } from "express";
 import crypto from "crypto";
+import { AccessTokenPayload } from "@/modules/auth/auth.types";
+import { UserAccess } from "@/modules/role/role.types";
+import { SignJWT, errors as joseErrors, jwtVerify } from "jose";
+import { keyRing } from "@/infrastructure/keys";
 
-export const generateToken = (user: User) => {
-    return jwt.sign(
-        { id: user.id, email: user.email },
-        config.ACCESS_SECRET,
-        { expiresIn: "15m" }
-    );
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const MFA_CHALLENGE_TYPE = "mfa_challenge";
+const OAUTH_STATE_TYPE = "oauth_state";
+
+/**
+ * Access token, signed with the active key of the key ring (RS256 or EdDSA)
+ * Other services verify it against /.well-known/jwks.json using the kid header
+ * - jti identifies the token for the denylist
+ * - ver is the user's tokenVersion; bumping it revokes the token
+ * - locale is the user's preferred locale, so authenticate needs no lookup
+ */
+export const generateToken = async (user: User, access: UserAccess, sessionId: string) => {
+    const { kid, alg, privateKey } = keyRing.signingKey;
+
+    return new SignJWT({
+        id: user.id,
+        email: user.email,
+        roles: access.roles,
+        permissions: access.permissions,
+        emailVerified: !!user.emailVerifiedAt,
+        sid: sessionId,
+        ver: user.tokenVersion,
+        locale: user.locale,
+    })
+        .setProtectedHeader({ alg, kid, typ: "JWT" })
+        .setJti(crypto.randomUUID())
+        .setIssuedAt()
+        .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+        .sign(privateKey);
 }
 
 export const generateRefreshToken = (user: User) => {
     return jwt.sign(
         { id: user.id, email: user.email },
         config.REFRESH_SECRET,
-        { expiresIn: "7d" }
+        // jwtid keeps tokens unique even when minted within the same second
+        { expiresIn: "7d", jwtid: crypto.randomUUID() }
     );
 }
 
@@ -28,11 +57,127 @@ export const verifyToken = (token: string) => {
     return jwt.verify(token, config.REFRESH_SECRET);
 }
 
+export const verifyAccessToken = async (token: string) => {
+    const { payload } = await jwtVerify(
+        token,
+        (header) => keyRing.getVerificationKey(header.kid).publicKey,
+        { algorithms: keyRing.algorithms }
+    );
+
+    // Only access tokens are signed by the key ring, but never let a typed token authenticate
+    if (payload.typ) {
+        throw new joseErrors.JWTClaimValidationFailed("invalid token type", payload, "typ");
+    }
+
+    return payload as unknown as AccessTokenPayload;
+}
+
+/**
+ * Short-lived token proving the password step of a login succeeded
+ * Exchanged together with a TOTP or recovery code for real tokens
+ */
+export const generateMfaChallengeToken = (userId: string, device: string) => {
+    return jwt.sign(
+        { typ: MFA_CHALLENGE_TYPE, device },
+        config.ACCESS_SECRET,
+        { subject: userId, expiresIn: "5m" }
+    );
+}
+
+export const verifyMfaChallengeToken = (token: string) => {
+    const payload = jwt.verify(token, config.ACCESS_SECRET) as jwt.JwtPayload & {
+        typ?: string;
+        device?: string;
+    };
+
+    if (payload.typ !== MFA_CHALLENGE_TYPE || !payload.sub) {
+        throw new jwt.JsonWebTokenError("invalid token type");
+    }
+
+    return { userId: payload.sub, device: payload.device ?? "Unknown Device" };
+}
+
+/**
+ * What the OAuth callback needs to finish an authorization-code flow
+ * started by the same browser
+ */
+export type OAuthState = {
+    provider: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    redirectTo: string;
+    device: string;
+};
+
+/**
+ * Signed OAuth flow state, kept in an httpOnly cookie between the start
+ * and callback requests
+ */
+export const generateOAuthStateToken = (state: OAuthState) => {
+    return jwt.sign(
+        { typ: OAUTH_STATE_TYPE, ...state },
+        config.ACCESS_SECRET,
+        { expiresIn: "10m" }
+    );
+}
+
+export const verifyOAuthStateToken = (token: string): OAuthState => {
+    const payload = jwt.verify(token, config.ACCESS_SECRET) as jwt.JwtPayload & Partial<OAuthState> & {
+        typ?: string;
+    };
+
+    if (payload.typ !== OAUTH_STATE_TYPE) {
+        throw new jwt.JsonWebTokenError("invalid token type");
+    }
+
+    return {
+        provider: payload.provider ?? "",
+        state: payload.state ?? "",
+        nonce: payload.nonce ?? "",
+        codeVerifier: payload.codeVerifier ?? "",
+        redirectTo: payload.redirectTo ?? "",
+        device: payload.device ?? "Unknown Device",
+    };
+}
+
+export const OAUTH_STATE_COOKIE = "oauthState";
+
+// Lax, not strict: the callback is a top-level navigation coming from the provider
+export const setOAuthStateCookie = (res: Response, token: string) => {
+    res.cookie(OAUTH_STATE_COOKIE, token, {
+        httpOnly: true,
+        secure: true,
+        sameSite: "lax",
+        path: "/api/auth",
+        maxAge: 10 * 60 * 1000,
+    });
+}
+
+export const clearOAuthStateCookie = (res: Response) => {
+    res.clearCookie(OAUTH_STATE_COOKIE, {
+        httpOnly: true,
+        secure: true,
+        sameSite: "lax",
+        path: "/api/auth",
+    });
+}
+
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
 export const setRefreshTokenCookie = (res: Response, token: string) => {
-    res.cookie("refreshToken", token, {
+    res.cookie(REFRESH_TOKEN_COOKIE, token, {
         httpOnly: true,
         secure: true,
         sameSite: "strict",
         maxAge: 7 * 24 * 60 * 60 * 1000,
     });
-}
\ No newline at end of file
+}
+
+export const clearRefreshTokenCookie = (res: Response) => {
+    res.clearCookie(REFRESH_TOKEN_COOKIE, {
+        httpOnly: true,
+        secure: true,
+        sameSite: "strict",
+    });
+}
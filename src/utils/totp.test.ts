@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "./totp";
+
+// RFC 6238 appendix B: SHA-1 seed "12345678901234567890" (base32 below);
+// the RFC lists 8-digit codes, a 6-digit code is their last six digits
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const RFC_VECTORS: [seconds: number, code: string][] = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+];
+
+describe("verifyTotp", () => {
+    for (const [seconds, code] of RFC_VECTORS) {
+        it(`accepts the RFC 6238 code at T=${seconds}`, () => {
+            assert.equal(verifyTotp(RFC_SECRET, code, 0, seconds * 1000), Math.floor(seconds / 30));
+        });
+    }
+
+    it("tolerates one step of clock drift by default", () => {
+        const nextStep = (1111111109 + 30) * 1000;
+        assert.equal(verifyTotp(RFC_SECRET, "081804", 1, nextStep), Math.floor(1111111109 / 30));
+        assert.equal(verifyTotp(RFC_SECRET, "081804", 0, nextStep), null);
+    });
+
+    it("rejects wrong and malformed codes", () => {
+        assert.equal(verifyTotp(RFC_SECRET, "287083", 0, 59 * 1000), null);
+        assert.equal(verifyTotp(RFC_SECRET, "28708", 0, 59 * 1000), null);
+        assert.equal(verifyTotp(RFC_SECRET, "94287082", 0, 59 * 1000), null);
+    });
+});
+
+describe("generateTotpSecret", () => {
+    it("returns 160 bits as unpadded base32", () => {
+        assert.match(generateTotpSecret(), /^[A-Z2-7]{32}$/);
+    });
+});
+
+describe("buildOtpauthUri", () => {
+    it("labels the account with the issuer", () => {
+        const uri = new URL(buildOtpauthUri(RFC_SECRET, "jane@example.com", "Backend API"));
+
+        assert.equal(uri.protocol, "otpauth:");
+        assert.equal(uri.host, "totp");
+        assert.equal(decodeURIComponent(uri.pathname), "/Backend API:jane@example.com");
+        assert.equal(uri.searchParams.get("secret"), RFC_SECRET);
+        assert.equal(uri.searchParams.get("issuer"), "Backend API");
+        assert.equal(uri.searchParams.get("period"), "30");
+    });
+});